@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/dataSource';
+import { getRole } from '@/lib/auth';
+import { logsForRole, statsForRole } from '@/lib/privacy';
+import { anomaliesSince, detectAnomalies, historyStart, parseAnomalyConfig, AnomalyConfig } from '@/lib/anomalies';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/timezone';
+
+// Thresholds come from ANOMALY_* env vars and can be overridden per request, e.g. ?ipBurstThreshold=50.
+// ?since= limits the result to anomalies ending at or after that time, for cron jobs polling incrementally.
+// ?timeZone= sets the zone whose calendar days spikes and drops are counted in (UTC by default).
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  let config: AnomalyConfig;
+  try {
+    config = parseAnomalyConfig((key, envName) => params.get(key) ?? process.env[envName]);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  const since = params.get('since');
+  if (since && isNaN(Date.parse(since))) {
+    return NextResponse.json({ error: `Invalid since: ${since}` }, { status: 400 });
+  }
+
+  const timeZone = params.get('timeZone') || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    return NextResponse.json({ error: `Invalid timeZone: ${timeZone}` }, { status: 400 });
+  }
+
+  try {
+    const role = await getRole();
+    const dataSource = getDataSource();
+    const range = since ? { start: historyStart(new Date(since), config).getTime() } : {};
+    const [logs, stats] = await Promise.all([dataSource.getLogs(range), dataSource.getStats()]);
+
+    let anomalies = detectAnomalies(logsForRole(logs, role), statsForRole(stats, role), config, timeZone);
+    if (since) anomalies = anomaliesSince(anomalies, new Date(since), timeZone);
+
+    return NextResponse.json({
+      generated_at: new Date().toISOString(),
+      config,
+      time_zone: timeZone,
+      count: anomalies.length,
+      anomalies,
+    });
+  } catch (error) {
+    console.error('Error detecting anomalies:', error);
+    return NextResponse.json({ error: 'Failed to detect anomalies' }, { status: 502 });
+  }
+}
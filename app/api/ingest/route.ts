@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { gunzipSync } from 'zlib';
+import { getRole } from '@/lib/auth';
+import {
+  ACCESS_LOG_FORMATS, AccessLogError, AccessLogFormat, ingestAccessLog, appendIngestedLogs, defaultIngestFile,
+  openGeoIp, geoIpConfigFromEnv,
+} from '@/lib/ingest';
+
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+// Access logs compress well, but a small archive can still inflate past what fits in memory.
+// The limit covers all files in a request together.
+const MAX_INFLATED_BYTES = 256 * 1024 * 1024;
+
+class UploadTooLargeError extends Error {}
+
+function megabytes(bytes: number): string {
+  return `${bytes / 1024 / 1024} MB`;
+}
+
+// Reads the body up to the limit, whatever Content-Length claims, since it may be missing or wrong
+async function readBody(request: NextRequest): Promise<Buffer> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_UPLOAD_BYTES) {
+      await reader.cancel();
+      throw new UploadTooLargeError(`Uploads are limited to ${megabytes(MAX_UPLOAD_BYTES)}`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Decodes the files of one request in turn, each only inflating into what the others left over
+function createUploadDecoder(): (bytes: Buffer) => string {
+  let remaining = MAX_INFLATED_BYTES;
+  const tooLarge = () =>
+    new UploadTooLargeError(`Uploads are limited to ${megabytes(MAX_INFLATED_BYTES)} in total once decompressed`);
+
+  return (bytes) => {
+    let decoded = bytes;
+    // Rotated logs are usually gzipped
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      if (remaining <= 0) throw tooLarge();
+      try {
+        decoded = gunzipSync(bytes, { maxOutputLength: remaining });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge();
+        throw error;
+      }
+    }
+    remaining -= decoded.byteLength;
+    if (remaining < 0) throw tooLarge();
+    return decoded.toString('utf8');
+  };
+}
+
+// Upload access logs as multipart form data: one or more `file` fields, plus optional `format`
+// (auto, combined or json) and `path` (keep only requests under this prefix). A plain-text body
+// is accepted too, with format and path as query parameters. Entries are enriched from the
+// GEOIP_* databases and appended to INGEST_LOG_FILE.
+export async function POST(request: NextRequest) {
+  if ((await getRole()) !== 'admin') {
+    return NextResponse.json({ error: 'Only admins can ingest logs' }, { status: 403 });
+  }
+
+  // Fail early when the size is declared; readBody enforces the limit either way
+  const length = Number(request.headers.get('content-length'));
+  if (length > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: `Uploads are limited to ${megabytes(MAX_UPLOAD_BYTES)}` }, { status: 413 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  let uploads: { name: string; contents: string }[];
+  let format = params.get('format') || 'auto';
+  let pathPrefix = params.get('path') || undefined;
+  const decodeUpload = createUploadDecoder();
+  try {
+    const body = await readBody(request);
+    const contentType = request.headers.get('content-type') ?? '';
+    if (contentType.startsWith('multipart/form-data')) {
+      const form = await new Response(new Uint8Array(body), { headers: { 'content-type': contentType } }).formData();
+      format = (form.get('format') as string | null) || format;
+      pathPrefix = (form.get('path') as string | null) || pathPrefix;
+      const files = form.getAll('file').filter((value): value is File => typeof value !== 'string');
+      uploads = [];
+      for (const file of files) {
+        uploads.push({ name: file.name, contents: decodeUpload(Buffer.from(await file.arrayBuffer())) });
+      }
+    } else {
+      uploads = [{ name: 'body', contents: decodeUpload(body) }];
+    }
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    return NextResponse.json({ error: `Could not read upload: ${(error as Error).message}` }, { status: 400 });
+  }
+
+  if (uploads.length === 0) {
+    return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+  }
+  if (!ACCESS_LOG_FORMATS.includes(format as AccessLogFormat)) {
+    return NextResponse.json({ error: `Invalid format: ${format}` }, { status: 400 });
+  }
+
+  try {
+    const geo = await openGeoIp(geoIpConfigFromEnv());
+    const file = defaultIngestFile();
+    const results = [];
+    for (const upload of uploads) {
+      const result = ingestAccessLog(upload.contents, geo, { format: format as AccessLogFormat, pathPrefix });
+      const { added, duplicates } = await appendIngestedLogs(file, result.logs);
+      results.push({
+        name: upload.name,
+        lines: result.lines,
+        parsed: result.logs.length,
+        skipped: result.skipped,
+        added,
+        duplicates,
+        errors: result.errors,
+        stats: result.stats,
+      });
+    }
+    return NextResponse.json({ file, results });
+  } catch (error) {
+    if (error instanceof AccessLogError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error ingesting logs:', error);
+    return NextResponse.json({ error: 'Failed to ingest logs' }, { status: 500 });
+  }
+}
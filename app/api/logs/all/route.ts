@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/dataSource';
+import { getRole } from '@/lib/auth';
+import { logsForRole } from '@/lib/privacy';
+import { rangeSince, isValidTimestamp } from '@/lib/liveTail';
+
+// Returns every log entry, or with ?since=<ISO timestamp> only the ones at or after it
+export async function GET(request: NextRequest) {
+  const since = request.nextUrl.searchParams.get('since') || '';
+  if (since && !isValidTimestamp(since)) {
+    return NextResponse.json({ error: `Invalid since: ${since}` }, { status: 400 });
+  }
+
+  try {
+    const logs = await getDataSource().getLogs(rangeSince(since));
+    return NextResponse.json(logsForRole(logs, await getRole()));
+  } catch (error) {
+    console.error('Error fetching logs:', error);
+    return NextResponse.json({ error: 'Failed to fetch logs' }, { status: 502 });
+  }
+}
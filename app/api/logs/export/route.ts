@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseLogQuery, filterLogs, sortLogs, dateRange, LogQueryError } from '@/lib/logQuery';
+import {
+  EXPORT_FORMATS, EXPORT_CONTENT_TYPES, ExportFormat, parseExportColumns, exportLines, exportXlsx,
+} from '@/lib/export';
+import { formatInZone } from '@/lib/timezone';
+import { getDataSource } from '@/lib/dataSource';
+import { getRole } from '@/lib/auth';
+import { logsForRole } from '@/lib/privacy';
+
+// Rows are flushed in batches so the response starts streaming immediately
+const BATCH_SIZE = 1000;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  let query;
+  try {
+    query = parseLogQuery(params);
+  } catch (error) {
+    if (error instanceof LogQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const exportFormat = (params.get('format') || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(exportFormat)) {
+    return NextResponse.json({ error: `Invalid format: ${exportFormat}` }, { status: 400 });
+  }
+
+  const columns = parseExportColumns(params.get('columns'));
+  if (!columns) {
+    return NextResponse.json({ error: `Invalid columns: ${params.get('columns')}` }, { status: 400 });
+  }
+
+  let logs;
+  try {
+    logs = logsForRole(await getDataSource().getLogs(dateRange(query)), await getRole());
+  } catch (error) {
+    console.error('Error fetching logs:', error);
+    return NextResponse.json({ error: 'Failed to fetch logs' }, { status: 502 });
+  }
+
+  const rows = sortLogs(filterLogs(logs, query), query.sort);
+  const headers = {
+    'Content-Type': EXPORT_CONTENT_TYPES[exportFormat],
+    'Content-Disposition': `attachment; filename="medtalk-logs-${formatInZone(new Date(), 'yyyyMMdd-HHmm', query.timeZone)}.${exportFormat}"`,
+  };
+
+  if (exportFormat === 'xlsx') {
+    return new Response(exportXlsx(rows, columns, query.timeZone), { headers });
+  }
+
+  const encoder = new TextEncoder();
+  const lines = exportLines(rows, exportFormat, columns, query.timeZone);
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      let batch = '';
+      for (let i = 0; i < BATCH_SIZE; i++) {
+        const next = lines.next();
+        if (next.done) {
+          if (batch) controller.enqueue(encoder.encode(batch));
+          controller.close();
+          return;
+        }
+        batch += next.value;
+      }
+      controller.enqueue(encoder.encode(batch));
+    },
+  });
+
+  return new Response(stream, { headers });
+}
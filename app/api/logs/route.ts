@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseLogQuery, queryLogs, dateRange, isPlainPageQuery, pageResult, LogQueryError } from '@/lib/logQuery';
+import { getDataSource } from '@/lib/dataSource';
+import { getRole } from '@/lib/auth';
+import { logsForRole, privacyForRole } from '@/lib/privacy';
+
+export async function GET(request: NextRequest) {
+  let query;
+  try {
+    query = parseLogQuery(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof LogQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  try {
+    const role = await getRole();
+    const dataSource = getDataSource();
+    const range = dateRange(query);
+
+    // Anonymized IPs sort differently from the stored ones, so those pages are sorted here
+    if (dataSource.getLogPage && isPlainPageQuery(query) && privacyForRole(role).mode === 'off') {
+      const { items, total } = await dataSource.getLogPage({
+        range,
+        sort: query.sort,
+        offset: (query.page - 1) * query.pageSize,
+        limit: query.pageSize,
+      });
+      return NextResponse.json(pageResult(logsForRole(items, role), total, query));
+    }
+
+    const logs = logsForRole(await dataSource.getLogs(range), role);
+    return NextResponse.json(queryLogs(logs, query));
+  } catch (error) {
+    console.error('Error fetching logs:', error);
+    return NextResponse.json({ error: 'Failed to fetch logs' }, { status: 502 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/dataSource';
+import { getRole, Role } from '@/lib/auth';
+import { logsForRole, statsForRole } from '@/lib/privacy';
+import { DEFAULT_TIME_ZONE, dayBounds, isValidTimeZone } from '@/lib/timezone';
+import { previousPeriod } from '@/lib/timeSeries';
+import {
+  Digest, DigestError, buildDigest, parseDigestRange, renderDigest, renderDigestHtml, renderDigestPdf,
+  createTransportFromEnv,
+} from '@/lib/reports';
+
+const PREVIEW_FORMATS = ['html', 'pdf', 'json'] as const;
+type PreviewFormat = typeof PREVIEW_FORMATS[number];
+
+interface DigestRequest {
+  from?: string | null;
+  to?: string | null;
+  timeZone?: string | null;
+}
+
+// Without from and to the digest covers the last seven complete days in the time zone
+async function loadDigest({ from, to, timeZone }: DigestRequest, role: Role | null): Promise<Digest> {
+  const zone = timeZone || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(zone)) {
+    throw new DigestError(`Invalid timeZone: ${zone}`);
+  }
+  const range = parseDigestRange(from ?? null, to ?? null, zone);
+
+  const dataSource = getDataSource();
+  // The digest compares against the period before, so that is loaded too
+  const logRange = { start: dayBounds(previousPeriod(range).startDate, zone).start, end: dayBounds(range.endDate, zone).end };
+  const [logs, stats] = await Promise.all([dataSource.getLogs(logRange), dataSource.getStats()]);
+  return buildDigest(logsForRole(logs, role), statsForRole(stats, role), range, zone);
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof DigestError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json({ error: `Failed ${action}` }, { status: 502 });
+}
+
+// Preview: ?from=yyyy-MM-dd&to=yyyy-MM-dd&timeZone=...&format=html|pdf|json
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const previewFormat = (params.get('format') || 'html') as PreviewFormat;
+  if (!PREVIEW_FORMATS.includes(previewFormat)) {
+    return NextResponse.json({ error: `Invalid format: ${previewFormat}` }, { status: 400 });
+  }
+
+  let digest: Digest;
+  try {
+    digest = await loadDigest(
+      { from: params.get('from'), to: params.get('to'), timeZone: params.get('timeZone') },
+      await getRole()
+    );
+  } catch (error) {
+    return errorResponse(error, 'building digest');
+  }
+
+  if (previewFormat === 'json') return NextResponse.json(digest);
+  if (previewFormat === 'pdf') {
+    return new Response(renderDigestPdf(digest), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="digest-${digest.range.startDate}-to-${digest.range.endDate}.pdf"`,
+      },
+    });
+  }
+  return new Response(renderDigestHtml(digest), { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+// Delivery: JSON body { from?, to?, timeZone?, transport? }; transport defaults to REPORT_TRANSPORT.
+// Sessions need the admin role; cron jobs use REPORT_API_TOKEN instead (see middleware).
+export async function POST(request: NextRequest) {
+  const role = await getRole();
+  if (role && role !== 'admin') {
+    return NextResponse.json({ error: 'Only admins can send digests' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  let report;
+  try {
+    report = renderDigest(await loadDigest(body, role));
+  } catch (error) {
+    return errorResponse(error, 'building digest');
+  }
+
+  try {
+    const transport = createTransportFromEnv(body.transport);
+    const result = await transport.send(report);
+    return NextResponse.json({
+      transport: transport.name,
+      result,
+      subject: report.subject,
+      range: report.digest.range,
+      time_zone: report.digest.timeZone,
+    });
+  } catch (error) {
+    return errorResponse(error, 'sending digest');
+  }
+}
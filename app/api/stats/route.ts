@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/dataSource';
+import { getRole } from '@/lib/auth';
+import { statsForRole } from '@/lib/privacy';
+
+export async function GET() {
+  try {
+    return NextResponse.json(statsForRole(await getDataSource().getStats(), await getRole()));
+  } catch (error) {
+    console.error('Error fetching stats:', error);
+    return NextResponse.json({ error: 'Failed to fetch stats' }, { status: 502 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { updateView, deleteView, SavedViewError } from '@/lib/savedViews';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof SavedViewError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json({ error: `Failed ${action}` }, { status: 500 });
+}
+
+// Rename, share/unshare or overwrite the state of a view
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+  try {
+    const { id } = await params;
+    return NextResponse.json(await updateView(user, id, await request.json().catch(() => ({}))));
+  } catch (error) {
+    return errorResponse(error, 'updating view');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+  try {
+    const { id } = await params;
+    await deleteView(user, id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'deleting view');
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { listViews, createView, SavedViewError } from '@/lib/savedViews';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof SavedViewError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json({ error: `Failed ${action}` }, { status: 500 });
+}
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+  try {
+    return NextResponse.json({ views: await listViews(user) });
+  } catch (error) {
+    return errorResponse(error, 'listing saved views');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+  try {
+    const view = await createView(user, await request.json().catch(() => ({})));
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'saving view');
+  }
+}
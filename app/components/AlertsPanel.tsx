@@ -0,0 +1,81 @@
+'use client'
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Anomaly, AnomalyKind } from '@/lib/anomalies';
+import { formatInZone } from '@/lib/timezone';
+
+interface AlertsPanelProps {
+  anomalies: Anomaly[];
+  timeZone: string;
+  onSelect: (anomaly: Anomaly) => void;
+}
+
+const KIND_LABELS: Record<AnomalyKind, string> = {
+  ip_burst: 'IP burst',
+  org_burst: 'Org burst',
+  country_spike: 'Country spike',
+  daily_drop: 'Traffic drop',
+};
+
+const COLLAPSED_COUNT = 5;
+
+// Spikes and drops cover a calendar day, already in the selected zone; bursts are exact instants
+function formatWindow({ kind, start, end }: Anomaly, timeZone: string) {
+  if (kind === 'country_spike' || kind === 'daily_drop') {
+    return format(parseISO(start), 'MMM dd, yyyy');
+  }
+  return `${formatInZone(start, 'MMM dd, HH:mm', timeZone)} - ${formatInZone(end, 'HH:mm', timeZone)}`;
+}
+
+export default function AlertsPanel({ anomalies, timeZone, onSelect }: AlertsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (anomalies.length === 0) return null;
+
+  const critical = anomalies.filter((anomaly) => anomaly.severity === 'critical').length;
+  const visible = expanded ? anomalies : anomalies.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">
+          Alerts
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            {anomalies.length} detected{critical > 0 && `, ${critical} critical`}
+          </span>
+        </h3>
+        {anomalies.length > COLLAPSED_COUNT && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="px-3 py-1 text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            {expanded ? 'Show Less' : `Show All (${anomalies.length})`}
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {visible.map((anomaly) => (
+          <li key={anomaly.id}>
+            <button
+              onClick={() => onSelect(anomaly)}
+              title="Filter the dashboard to this alert"
+              className="w-full flex items-center py-2 text-left text-sm hover:bg-gray-50 transition-colors"
+            >
+              <span
+                className={`inline-flex px-2 py-0.5 mr-3 rounded-full text-xs font-medium ${anomaly.severity === 'critical'
+                  ? 'bg-red-100 text-red-800'
+                  : 'bg-yellow-100 text-yellow-800'
+                  }`}
+              >
+                {KIND_LABELS[anomaly.kind]}
+              </span>
+              <span className="flex-1 text-gray-700">{anomaly.message}</span>
+              <span className="ml-3 text-gray-500 whitespace-nowrap">{formatWindow(anomaly, timeZone)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
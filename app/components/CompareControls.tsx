@@ -0,0 +1,64 @@
+'use client'
+import { CompareMode } from '@/lib/comparison';
+import { DateRange } from '@/lib/timeSeries';
+
+interface CompareControlsProps {
+  mode: CompareMode;
+  custom: DateRange;
+  // The range actually compared against, once known
+  range: DateRange | null;
+  rangeLabel: string;
+  onModeChange: (mode: CompareMode) => void;
+  onCustomChange: (range: DateRange) => void;
+}
+
+const MODE_LABELS: Record<CompareMode, string> = {
+  off: 'No comparison',
+  previous: 'Previous period',
+  custom: 'Custom period',
+};
+
+export default function CompareControls({ mode, custom, range, rangeLabel, onModeChange, onCustomChange }: CompareControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+      <label className="flex items-center">
+        <span className="mr-2">Compare to</span>
+        <select
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as CompareMode)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(MODE_LABELS) as CompareMode[]).map((value) => (
+            <option key={value} value={value}>{MODE_LABELS[value]}</option>
+          ))}
+        </select>
+      </label>
+
+      {mode === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={custom.startDate}
+            max={custom.endDate || undefined}
+            onChange={(e) => onCustomChange({ ...custom, startDate: e.target.value })}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={custom.endDate}
+            min={custom.startDate || undefined}
+            onChange={(e) => onCustomChange({ ...custom, endDate: e.target.value })}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </>
+      )}
+
+      {mode !== 'off' && (
+        <span className="text-gray-500">
+          {range ? `Comparing with ${rangeLabel}` : 'Select both dates to compare'}
+        </span>
+      )}
+    </div>
+  );
+}
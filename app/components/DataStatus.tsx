@@ -0,0 +1,99 @@
+'use client'
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { formatInZone } from '@/lib/timezone';
+
+// The log pipeline normally runs several times a day; older data is flagged as stale
+const STALE_AFTER_HOURS = 24;
+
+interface DataStatusProps {
+  status: 'loading' | 'error' | 'empty';
+  error: Error | null;
+  retryCount: number;
+  onRetry: () => void;
+}
+
+function RetryButton({ onClick, label = 'Retry' }: { onClick: () => void; label?: string }) {
+  return (
+    <button
+      onClick={onClick}
+      className="px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+    >
+      {label}
+    </button>
+  );
+}
+
+// Shown instead of the dashboard until there are logs to show
+export default function DataStatus({ status, error, retryCount, onRetry }: DataStatusProps) {
+  if (status === 'loading') {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-12 text-center text-gray-600">
+        <svg className="mx-auto mb-4 h-8 w-8 text-blue-500 animate-spin" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+        <p>Loading logs...</p>
+        {retryCount > 0 && (
+          <p className="mt-1 text-sm text-gray-500">The logs API is not responding, retrying (attempt {retryCount})</p>
+        )}
+      </div>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-12 text-center">
+        <p className="text-lg font-semibold text-red-700 mb-1">Couldn&apos;t load logs</p>
+        <p className="text-sm text-gray-600 mb-4">{error?.message ?? 'Unknown error'}</p>
+        <RetryButton onClick={onRetry} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-12 text-center">
+      <p className="text-lg font-semibold text-gray-800 mb-1">No traffic recorded yet</p>
+      <p className="text-sm text-gray-600 mb-4">The logs API returned no entries. Hits will show up here once they are processed.</p>
+      <RetryButton onClick={onRetry} label="Refresh" />
+    </div>
+  );
+}
+
+interface FreshnessBannerProps {
+  // StatsData.last_processed_timestamp; empty before the first log is processed
+  lastProcessed: string | null;
+  timeZone: string;
+  isRefreshing: boolean;
+  // Failed refreshes while older data is still shown
+  failures: { label: string; error: Error; fetchedAt: number | null }[];
+  onRetry: () => void;
+}
+
+export function FreshnessBanner({ lastProcessed, timeZone, isRefreshing, failures, onRetry }: FreshnessBannerProps) {
+  const processedAt = lastProcessed ? parseISO(lastProcessed) : null;
+  const isStale = !!processedAt && Date.now() - processedAt.getTime() > STALE_AFTER_HOURS * 60 * 60 * 1000;
+
+  return (
+    <div className="mb-6 space-y-2 text-sm">
+      <div className={`flex items-center justify-between px-4 py-2 rounded-lg ${isStale ? 'bg-amber-50 text-amber-800' : 'bg-gray-50 text-gray-600'}`}>
+        <span>
+          {processedAt
+            ? <>Data as of {formatInZone(processedAt, 'MMM dd, yyyy HH:mm', timeZone)} ({formatDistanceToNow(processedAt, { addSuffix: true })})</>
+            : 'Last processed time unknown'}
+          {isStale && ' - the log pipeline may be behind'}
+        </span>
+        {isRefreshing && <span className="text-gray-500">Refreshing...</span>}
+      </div>
+
+      {failures.map(({ label, error, fetchedAt }) => (
+        <div key={label} className="flex items-center justify-between px-4 py-2 rounded-lg bg-red-50 text-red-800">
+          <span>
+            Couldn&apos;t {fetchedAt === null ? 'load' : 'refresh'} {label}: {error.message}.
+            {fetchedAt !== null && ` Showing ${label} loaded ${formatDistanceToNow(fetchedAt, { addSuffix: true })}.`}
+          </span>
+          <RetryButton onClick={onRetry} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client'
+import { useState } from 'react';
+import { LogQuery, toSearchParams } from '@/lib/logQuery';
+import { EXPORT_COLUMNS, EXPORT_FORMATS, ExportColumn, ExportFormat } from '@/lib/export';
+
+type ExportQuery = Omit<LogQuery, 'page' | 'pageSize' | 'cursor'>;
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  ndjson: 'NDJSON',
+  xlsx: 'Excel (XLSX)',
+};
+
+// Downloads the full filtered result set in the current sort order via the streaming export route
+export default function ExportMenu({ query }: { query: ExportQuery }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumn[]>(EXPORT_COLUMNS.map((column) => column.key));
+
+  const toggleColumn = (key: ExportColumn) => {
+    setColumns((current) => current.includes(key)
+      ? current.filter((column) => column !== key)
+      : EXPORT_COLUMNS.map((column) => column.key).filter((column) => column === key || current.includes(column)));
+  };
+
+  const handleExport = () => {
+    const params = toSearchParams({ ...query, page: 1, pageSize: 1, cursor: null });
+    params.delete('page');
+    params.delete('pageSize');
+    params.set('format', exportFormat);
+    params.set('columns', columns.join(','));
+
+    const link = document.createElement('a');
+    link.href = `/api/logs/export?${params}`;
+    link.download = '';
+    link.click();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+      >
+        <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {EXPORT_FORMATS.map((value) => (
+                <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Columns</p>
+            <div className="space-y-1">
+              {EXPORT_COLUMNS.map(({ key, label }) => (
+                <label key={key} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(key)}
+                    onChange={() => toggleColumn(key)}
+                    className="mr-2"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={columns.length === 0}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Download
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client'
+import { useMemo, useState } from 'react';
+import { LogEntry } from '@/lib/types';
+import { FACET_FIELDS, FACET_LABELS, FacetField, FacetFilter, countFacetValues, facetState, setFacet } from '@/lib/facets';
+
+interface FacetSidebarProps {
+  // Logs matching every filter except the facets themselves
+  logs: LogEntry[];
+  facets: FacetFilter[];
+  onChange: (facets: FacetFilter[]) => void;
+}
+
+const COLLAPSED_COUNT = 8;
+
+function FacetGroup({ field, logs, facets, onChange }: FacetSidebarProps & { field: FacetField }) {
+  const [expanded, setExpanded] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  const counts = useMemo(() => countFacetValues(logs, field, facets), [logs, field, facets]);
+
+  // Selected values stay listed even when the other facets leave them with no hits
+  const selected = facets.filter((facet) => facet.field === field && !counts.some((item) => item.value === facet.value));
+  const matching = [...counts, ...selected.map((facet) => ({ value: facet.value, count: 0 }))]
+    .filter((item) => item.value.toLowerCase().includes(filter.toLowerCase()));
+  const visible = expanded ? matching : matching.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{FACET_LABELS[field]}</h4>
+      {counts.length > COLLAPSED_COUNT && (
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={`Filter ${FACET_LABELS[field].toLowerCase()}...`}
+          className="w-full mb-2 px-2 py-1 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      )}
+      <ul className="space-y-0.5">
+        {visible.map(({ value, count }) => {
+          const state = facetState(facets, field, value);
+          return (
+            <li key={value} className="group flex items-center text-sm">
+              <button
+                onClick={() => onChange(setFacet(facets, field, value, state === 'include' ? null : 'include'))}
+                title={state === 'include' ? 'Remove filter' : 'Only show this value'}
+                className="flex-1 flex items-center min-w-0 text-left"
+              >
+                <span
+                  className={`h-3.5 w-3.5 mr-2 shrink-0 rounded border ${state === 'include'
+                    ? 'bg-blue-500 border-blue-500'
+                    : state === 'exclude'
+                      ? 'bg-red-500 border-red-500'
+                      : 'border-gray-300'
+                    }`}
+                />
+                <span className={`truncate ${state === 'exclude' ? 'line-through text-gray-400' : 'text-gray-700'}`}>
+                  {value || 'Unknown'}
+                </span>
+              </button>
+              <span className="ml-2 text-gray-500">{count.toLocaleString()}</span>
+              <button
+                onClick={() => onChange(setFacet(facets, field, value, state === 'exclude' ? null : 'exclude'))}
+                title={state === 'exclude' ? 'Remove exclusion' : 'Exclude this value'}
+                className={`ml-1 px-1 text-xs rounded ${state === 'exclude'
+                  ? 'text-red-600'
+                  : 'text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-600'
+                  }`}
+              >
+                ⊘
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {matching.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+        >
+          {expanded ? 'Show less' : `Show all ${matching.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function FacetSidebar(props: FacetSidebarProps) {
+  return (
+    <aside className="bg-white rounded-xl shadow-lg p-6 space-y-6">
+      <h3 className="text-lg font-semibold text-gray-800">Refine</h3>
+      {FACET_FIELDS.map((field) => (
+        <FacetGroup key={field} field={field} {...props} />
+      ))}
+    </aside>
+  );
+}
@@ -0,0 +1,37 @@
+'use client'
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  exclude?: boolean;
+  onRemove: () => void;
+}
+
+export default function FilterChips({ chips }: { chips: FilterChip[] }) {
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {chips.map((chip) => (
+        <span
+          key={chip.key}
+          className={`inline-flex items-center pl-3 pr-1 py-0.5 rounded-full text-sm ${chip.exclude
+            ? 'bg-red-50 text-red-800'
+            : 'bg-blue-50 text-blue-800'
+            }`}
+        >
+          {chip.label}
+          <button
+            onClick={chip.onRemove}
+            title="Remove filter"
+            className="ml-1 p-0.5 rounded-full hover:bg-black/10"
+          >
+            <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
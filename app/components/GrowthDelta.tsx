@@ -0,0 +1,39 @@
+import { GrowthDeltas, Delta } from '@/lib/growth';
+
+function formatDelta({ change, percent }: Delta) {
+  const sign = change > 0 ? '+' : '';
+  const pct = percent === null ? '' : ` (${sign}${percent.toFixed(1)}%)`;
+  return `${sign}${change.toLocaleString()}${pct}`;
+}
+
+function deltaColor({ change }: Delta) {
+  if (change > 0) return 'text-green-600';
+  if (change < 0) return 'text-red-600';
+  return 'text-gray-500';
+}
+
+export default function GrowthDelta({ deltas }: { deltas: GrowthDeltas | null }) {
+  if (!deltas) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs">
+      <p className={deltaColor(deltas.dayOverDay)}>
+        {formatDelta(deltas.dayOverDay)} <span className="text-gray-500">vs yesterday</span>
+      </p>
+      <p className={deltaColor(deltas.weekOverWeek)}>
+        {formatDelta(deltas.weekOverWeek)} <span className="text-gray-500">vs last week</span>
+      </p>
+    </div>
+  );
+}
+
+// Change against the comparison period, e.g. "+120 (+8.5%) vs Aug 01 - Aug 07"
+export function PeriodDelta({ delta, label }: { delta: Delta | null; label: string }) {
+  if (!delta) return null;
+
+  return (
+    <p className={`mt-1 text-xs ${deltaColor(delta)}`}>
+      {formatDelta(delta)} <span className="text-gray-500">vs {label}</span>
+    </p>
+  );
+}
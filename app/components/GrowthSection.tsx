@@ -0,0 +1,84 @@
+'use client'
+import { format, parseISO } from 'date-fns';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { GrowthPoint } from '@/lib/growth';
+
+const tooltipStyle = {
+  backgroundColor: 'white',
+  border: '1px solid #e5e7eb',
+  borderRadius: '8px',
+  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+  padding: '8px 12px'
+};
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM dd');
+
+export default function GrowthSection({ series }: { series: GrowthPoint[] }) {
+  if (series.length === 0) return null;
+
+  const newMarkets = series.filter((point) => point.newCountries.length > 0).reverse();
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Growth</h2>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-gray-50 rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4 text-gray-800">Cumulative Users and Countries</h3>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={series}>
+                <XAxis dataKey="date" tickFormatter={formatDay} />
+                <YAxis yAxisId="users" allowDecimals={false} />
+                <YAxis yAxisId="countries" orientation="right" allowDecimals={false} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={(date) => formatDay(date as string)} />
+                <Legend />
+                <Line yAxisId="users" type="monotone" dataKey="cumulativeUsers" name="Users" stroke="#10B981" strokeWidth={2} dot={false} />
+                <Line yAxisId="countries" type="stepAfter" dataKey="cumulativeCountries" name="Countries" stroke="#8B5CF6" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4 text-gray-800">New Users per Day</h3>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={series}>
+                <XAxis dataKey="date" tickFormatter={formatDay} />
+                <YAxis allowDecimals={false} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelFormatter={(date) => formatDay(date as string)}
+                  formatter={(value) => [`${value} new users`, 'New Users']}
+                />
+                <Bar dataKey="newUsers" fill="#10B981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-6 mt-6">
+        <h3 className="text-lg font-semibold mb-4 text-gray-800">New Markets</h3>
+        {newMarkets.length === 0 ? (
+          <p className="text-sm text-gray-600">No new countries in this period.</p>
+        ) : (
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {newMarkets.map((point) => (
+              <li key={point.date} className="flex items-start text-sm">
+                <span className="w-24 shrink-0 text-gray-600">{format(parseISO(point.date), 'MMM dd, yyyy')}</span>
+                <div className="flex flex-wrap gap-1">
+                  {point.newCountries.map((country) => (
+                    <span key={country} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                      {country}
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
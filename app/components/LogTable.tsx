@@ -0,0 +1,432 @@
+'use client'
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getSession } from 'next-auth/react';
+import { LogEntry, SortKey, SortField, SortDirection, visitorKey } from '@/lib/types';
+import { LogFilters, LogQueryResult, toSearchParams } from '@/lib/logQuery';
+import {
+  LOG_COLUMNS, ColumnKey, ColumnLayout, DEFAULT_COLUMN_LAYOUT, MIN_COLUMN_WIDTH, MAX_COLUMN_WIDTH,
+  normalizeColumnLayout, moveColumn,
+} from '@/lib/columnLayout';
+import { PAGE_SIZES } from '@/lib/urlState';
+import { formatInZone } from '@/lib/timezone';
+
+interface LogTableProps {
+  filters: LogFilters;
+  sort: SortKey[];
+  onSortChange: (sort: SortKey[]) => void;
+  page: number;
+  onPageChange: (page: number) => void;
+  pageSize: number;
+  onPageSizeChange: (pageSize: number) => void;
+  // Bumped to refetch the current page, e.g. when live mode brings in new hits
+  refreshKey: number;
+  onSelectVisitor: (visitor: string) => void;
+}
+
+const ROW_HEIGHT = 41;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+// Pages are loaded in chunks as they scroll into view, each continuing from the previous chunk's cursor
+const CHUNK_SIZE = 500;
+const LAYOUT_STORAGE_PREFIX = 'medtalk.logTable.columns';
+
+const COLUMN_LABELS = Object.fromEntries(LOG_COLUMNS.map((column) => [column.key, column.label])) as Record<ColumnKey, string>;
+
+// The timestamp header names the zone its values are shown in
+function columnLabel(key: ColumnKey, timeZone: string) {
+  return key === 'timestamp' ? `${COLUMN_LABELS[key]} ${timeZone}` : COLUMN_LABELS[key];
+}
+
+async function fetchLogs(params: URLSearchParams, signal: AbortSignal): Promise<LogQueryResult> {
+  const response = await fetch(`/api/logs?${params}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch table page: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Column layout, saved in localStorage under the signed-in user's id
+function useColumnLayout() {
+  const [layout, setLayout] = useState<ColumnLayout>(DEFAULT_COLUMN_LAYOUT);
+  const storageKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSession().then((session) => {
+      if (cancelled) return;
+      storageKey.current = `${LAYOUT_STORAGE_PREFIX}:${session?.user?.id || 'anonymous'}`;
+      const stored = localStorage.getItem(storageKey.current);
+      if (stored) {
+        try {
+          setLayout(normalizeColumnLayout(JSON.parse(stored)));
+        } catch {
+          localStorage.removeItem(storageKey.current);
+        }
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateLayout = useCallback((next: ColumnLayout, persist = true) => {
+    setLayout(next);
+    if (persist && storageKey.current) {
+      localStorage.setItem(storageKey.current, JSON.stringify(next));
+    }
+  }, []);
+
+  return [layout, updateLayout] as const;
+}
+
+function SortIcon({ direction, priority }: { direction: SortDirection | null; priority: number | null }) {
+  if (!direction) {
+    return (
+      <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+      </svg>
+    );
+  }
+
+  return (
+    <span className="flex items-center text-blue-600">
+      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={direction === 'asc' ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'} />
+      </svg>
+      {priority !== null && <span className="text-[10px] font-semibold">{priority}</span>}
+    </span>
+  );
+}
+
+function renderCell(log: LogEntry, key: ColumnKey, timeZone: string, onSelectVisitor: (visitor: string) => void) {
+  switch (key) {
+    case 'ip':
+      return (
+        <button
+          onClick={() => onSelectVisitor(visitorKey(log))}
+          className="font-mono text-blue-600 hover:text-blue-800 hover:underline"
+        >
+          {log.ip}
+        </button>
+      );
+    case 'timestamp':
+      return formatInZone(log.timestamp, 'MMM dd, yyyy HH:mm', timeZone);
+    case 'country':
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+          {log.country}
+        </span>
+      );
+    default:
+      return log[key];
+  }
+}
+
+export default function LogTable({
+  filters, sort, onSortChange, page, onPageChange, pageSize, onPageSizeChange, refreshKey, onSelectVisitor,
+}: LogTableProps) {
+  const [layout, setLayout] = useColumnLayout();
+  const [rows, setRows] = useState<LogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [draggedColumn, setDraggedColumn] = useState<ColumnKey | null>(null);
+  const [jumpValue, setJumpValue] = useState(String(page));
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const moreController = useRef<AbortController | null>(null);
+
+  const pageStart = (page - 1) * pageSize;
+  const pageRows = Math.min(pageSize, Math.max(0, total - pageStart));
+  const totalPages = Math.ceil(total / pageSize);
+  const columns = layout.order.filter((key) => !layout.hidden.includes(key));
+  const tableWidth = columns.reduce((sum, key) => sum + layout.widths[key], 0);
+
+  // Load the first chunk of the page; pages larger than a chunk are aligned to chunk boundaries
+  useEffect(() => {
+    const controller = new AbortController();
+    moreController.current?.abort();
+    const chunkSize = Math.min(pageSize, CHUNK_SIZE);
+    const params = toSearchParams({ ...filters, sort, page: pageStart / chunkSize + 1, pageSize: chunkSize, cursor: null });
+
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    fetchLogs(params, controller.signal)
+      .then((result) => {
+        setRows(result.items);
+        setTotal(result.total);
+        setNextCursor(result.nextCursor);
+        setError(null);
+        setIsLoading(false);
+      })
+      .catch((error) => {
+        if (error.name === 'AbortError') return;
+        console.error('Error fetching table page:', error);
+        setError('Failed to load log entries');
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [filters, sort, pageStart, pageSize, refreshKey]);
+
+  // Start at the top whenever a different page or ordering is shown
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [filters, sort, pageStart, pageSize]);
+
+  useEffect(() => {
+    setJumpValue(String(page));
+  }, [page]);
+
+  // A deep link may point past the last page once filters are applied
+  useEffect(() => {
+    if (totalPages > 0 && page > totalPages) {
+      onPageChange(totalPages);
+    }
+  }, [page, totalPages, onPageChange]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(pageRows, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  // Fetch the next chunk once the visible rows get close to the end of what is loaded
+  useEffect(() => {
+    if (isLoading || isLoadingMore || !nextCursor || rows.length >= pageRows || last < rows.length - OVERSCAN) return;
+
+    const controller = new AbortController();
+    moreController.current = controller;
+    const params = toSearchParams({
+      ...filters, sort, page: 1, pageSize: Math.min(CHUNK_SIZE, pageRows - rows.length), cursor: nextCursor,
+    });
+
+    setIsLoadingMore(true);
+    fetchLogs(params, controller.signal)
+      .then((result) => {
+        setRows((current) => [...current, ...result.items]);
+        setNextCursor(result.nextCursor);
+        setIsLoadingMore(false);
+      })
+      .catch((error) => {
+        if (error.name === 'AbortError') return;
+        console.error('Error fetching table rows:', error);
+        setError('Failed to load more log entries');
+        setIsLoadingMore(false);
+      });
+  }, [filters, sort, rows.length, pageRows, last, nextCursor, isLoading, isLoadingMore]);
+
+  // Click sorts by one column; shift-click adds the column as a further sort level or flips it
+  const handleSort = (field: SortField, addLevel: boolean) => {
+    const existing = sort.find((key) => key.field === field);
+    const flipped: SortDirection = existing?.direction === 'asc' ? 'desc' : 'asc';
+
+    if (addLevel) {
+      onSortChange(existing
+        ? sort.map((key) => (key.field === field ? { field, direction: flipped } : key))
+        : [...sort, { field, direction: 'asc' }]);
+    } else {
+      onSortChange([{ field, direction: existing ? flipped : 'asc' }]);
+    }
+  };
+
+  const startResize = (key: ColumnKey, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = layout.widths[key];
+    let latest = layout;
+
+    const handleMove = (event: MouseEvent) => {
+      const width = Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX));
+      latest = { ...layout, widths: { ...layout.widths, [key]: width } };
+      setLayout(latest, false);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setLayout(latest);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const toggleColumn = (key: ColumnKey) => {
+    const hidden = layout.hidden.includes(key)
+      ? layout.hidden.filter((column) => column !== key)
+      : [...layout.hidden, key];
+    if (hidden.length < layout.order.length) {
+      setLayout({ ...layout, hidden });
+    }
+  };
+
+  const jumpToPage = () => {
+    const target = Number(jumpValue);
+    if (Number.isInteger(target) && totalPages > 0) {
+      onPageChange(Math.min(totalPages, Math.max(1, target)));
+    } else {
+      setJumpValue(String(page));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-800">Log Entries</h3>
+        <div className="flex items-center space-x-4">
+          <p className="text-sm text-gray-600">
+            {isLoading
+              ? 'Loading entries...'
+              : `Showing ${pageRows === 0 ? 0 : pageStart + 1} to ${pageStart + pageRows} of ${total} entries`
+            }
+          </p>
+          <div className="relative">
+            <button
+              onClick={() => setShowColumnMenu(!showColumnMenu)}
+              className="px-3 py-1 text-sm text-gray-700 border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Columns
+            </button>
+            {showColumnMenu && (
+              <div className="absolute right-0 z-20 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-2">
+                <p className="text-xs text-gray-500">Drag headers to reorder and their edges to resize. Shift-click a header to sort by several columns.</p>
+                {layout.order.map((key) => (
+                  <label key={key} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!layout.hidden.includes(key)}
+                      onChange={() => toggleColumn(key)}
+                      className="mr-2"
+                    />
+                    {columnLabel(key, filters.timeZone)}
+                  </label>
+                ))}
+                <button
+                  onClick={() => setLayout(DEFAULT_COLUMN_LAYOUT)}
+                  className="w-full mt-1 px-3 py-1 text-sm text-gray-700 border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Reset Layout
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div
+          ref={scrollRef}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="overflow-auto"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+        >
+          <table className="divide-y divide-gray-200" style={{ width: Math.max(tableWidth, 0), minWidth: '100%', tableLayout: 'fixed' }}>
+            <colgroup>
+              {columns.map((key) => (
+                <col key={key} style={{ width: layout.widths[key] }} />
+              ))}
+            </colgroup>
+            <thead className="bg-gray-50 sticky top-0 z-10">
+              <tr>
+                {columns.map((key) => {
+                  const index = sort.findIndex((item) => item.field === key);
+                  return (
+                    <th
+                      key={key}
+                      draggable
+                      onDragStart={() => setDraggedColumn(key)}
+                      onDragEnd={() => setDraggedColumn(null)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={() => draggedColumn && setLayout(moveColumn(layout, draggedColumn, key))}
+                      onClick={(e) => handleSort(key, e.shiftKey)}
+                      className={`relative px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none hover:bg-gray-100 ${draggedColumn === key ? 'opacity-50' : ''}`}
+                    >
+                      <div className="flex items-center space-x-1">
+                        <span className="truncate">{columnLabel(key, filters.timeZone)}</span>
+                        <SortIcon
+                          direction={index === -1 ? null : sort[index].direction}
+                          priority={index === -1 || sort.length === 1 ? null : index + 1}
+                        />
+                      </div>
+                      <div
+                        onMouseDown={(e) => startResize(key, e)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+                      />
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {error && (
+                <tr>
+                  <td colSpan={columns.length} className="px-6 py-4 text-sm text-red-600">{error}</td>
+                </tr>
+              )}
+              {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+              {Array.from({ length: last - first }, (_, i) => {
+                const log = rows[first + i];
+                return (
+                  <tr key={first + i} className="hover:bg-gray-50 transition-colors" style={{ height: ROW_HEIGHT }}>
+                    {columns.map((key) => (
+                      <td key={key} className="px-6 whitespace-nowrap overflow-hidden text-ellipsis text-sm text-gray-900">
+                        {log ? renderCell(log, key, filters.timeZone, onSelectVisitor) : <span className="text-gray-300">…</span>}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+              {last < pageRows && <tr style={{ height: (pageRows - last) * ROW_HEIGHT }} />}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onPageChange(Math.max(1, page - 1))}
+            disabled={page === 1}
+            className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-700">Page</span>
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, totalPages)}
+            value={jumpValue}
+            onChange={(e) => setJumpValue(e.target.value)}
+            onBlur={jumpToPage}
+            onKeyDown={(e) => e.key === 'Enter' && jumpToPage()}
+            className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-700">of {Math.max(1, totalPages)}</span>
+          <button
+            onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+            disabled={page >= totalPages}
+            className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          Rows per page
+          <select
+            value={pageSize}
+            onChange={(e) => onPageSizeChange(Number(e.target.value))}
+            className="ml-2 px-2 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>{size.toLocaleString()}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client'
+import { useMemo, useState } from 'react';
+import { LogEntry } from '@/lib/types';
+import { aggregateByOrg, aggregateByCategory, ORG_CATEGORIES, OrgCategory } from '@/lib/orgs';
+
+type OrgSort = 'hits' | 'uniqueIPs';
+
+const CATEGORY_BADGES: Record<OrgCategory, string> = {
+  hosting: 'bg-red-100 text-red-800',
+  isp: 'bg-blue-100 text-blue-800',
+  education: 'bg-amber-100 text-amber-800',
+  healthcare: 'bg-green-100 text-green-800',
+  unknown: 'bg-gray-100 text-gray-800',
+};
+
+const TOP_ORGS = 15;
+
+export default function OrgPanel({ logs }: { logs: LogEntry[] }) {
+  const [sortBy, setSortBy] = useState<OrgSort>('hits');
+
+  const orgs = useMemo(() => aggregateByOrg(logs), [logs]);
+  const categories = useMemo(() => aggregateByCategory(orgs), [orgs]);
+  const topOrgs = useMemo(
+    () => [...orgs].sort((a, b) => b[sortBy] - a[sortBy] || a.org.localeCompare(b.org)).slice(0, TOP_ORGS),
+    [orgs, sortBy]
+  );
+  const totalHits = logs.length;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-4 text-gray-800">Organizations</h3>
+
+      {/* Category Breakdown */}
+      <div className="flex h-3 rounded-full overflow-hidden bg-gray-200 mb-3">
+        {ORG_CATEGORIES.map(({ key, color }) => (
+          categories[key].hits > 0 && (
+            <div key={key} style={{ width: `${(categories[key].hits / totalHits) * 100}%`, backgroundColor: color }} />
+          )
+        ))}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-6">
+        {ORG_CATEGORIES.map(({ key, label, color }) => (
+          <div key={key} className="flex items-center space-x-2 text-sm">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+            <span className="text-gray-700">{label}</span>
+            <span className="text-gray-500">
+              ({totalHits > 0 ? ((categories[key].hits / totalHits) * 100).toFixed(1) : '0.0'}%)
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Top Organizations */}
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-700">Top Organizations</h4>
+        <div className="flex items-center space-x-2">
+          {(['hits', 'uniqueIPs'] as OrgSort[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setSortBy(value)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${sortBy === value
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+                }`}
+            >
+              {value === 'hits' ? 'By Hits' : 'By Unique IPs'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Organization</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Hits</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unique IPs</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {topOrgs.map((org) => (
+              <tr key={`${org.asn}|${org.org}`} className="hover:bg-gray-50 transition-colors">
+                <td className="px-6 py-3 text-sm text-gray-900">
+                  {org.org}
+                  {org.asn && <span className="ml-2 text-xs font-mono text-gray-500">{org.asn}</span>}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${CATEGORY_BADGES[org.category]}`}>
+                    {ORG_CATEGORIES.find((category) => category.key === org.category)?.label}
+                  </span>
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">{org.hits.toLocaleString()}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-600">{org.uniqueIPs.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client'
+import { GainedLost, PeriodChange } from '@/lib/comparison';
+import { parseOrg } from '@/lib/orgs';
+
+interface PeriodChangesProps {
+  countries: GainedLost;
+  orgs: GainedLost;
+  label: string;
+}
+
+const MAX_ITEMS = 10;
+
+function ChangeList({ title, items, tone, format }: {
+  title: string;
+  items: PeriodChange[];
+  tone: 'gained' | 'lost';
+  format: (value: string) => string;
+}) {
+  return (
+    <div>
+      <p className={`text-sm font-medium mb-2 ${tone === 'gained' ? 'text-green-700' : 'text-red-700'}`}>
+        {title} ({items.length})
+      </p>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">None</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {items.slice(0, MAX_ITEMS).map((item) => (
+            <li key={item.value} className="flex justify-between">
+              <span className="truncate text-gray-800" title={item.value}>{format(item.value) || 'Unknown'}</span>
+              <span className="ml-2 text-gray-500 whitespace-nowrap">{item.hits.toLocaleString()} hits</span>
+            </li>
+          ))}
+          {items.length > MAX_ITEMS && (
+            <li className="text-gray-500">and {(items.length - MAX_ITEMS).toLocaleString()} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Countries and organizations seen in only one of the two periods
+export default function PeriodChanges({ countries, orgs, label }: PeriodChangesProps) {
+  const orgName = (org: string) => parseOrg(org).name;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-1 text-gray-800">Gained and Lost</h3>
+      <p className="text-sm text-gray-500 mb-4">Compared with {label}; hits are from the period they appear in</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <ChangeList title="New countries" items={countries.gained} tone="gained" format={(country) => country} />
+        <ChangeList title="Lost countries" items={countries.lost} tone="lost" format={(country) => country} />
+        <ChangeList title="New organizations" items={orgs.gained} tone="gained" format={orgName} />
+        <ChangeList title="Lost organizations" items={orgs.lost} tone="lost" format={orgName} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client'
+import { useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { LogEntry } from '@/lib/types';
+import { buildCohorts } from '@/lib/retention';
+
+interface RetentionCohortsProps {
+  logs: LogEntry[];
+  firstSeen: Map<string, string>;
+  timeZone: string;
+}
+
+// Darker green for higher retention; week 0 is always 100% and shown neutral
+function cellStyle(percent: number, offset: number) {
+  if (offset === 0) return { backgroundColor: '#E5E7EB' };
+  const alpha = 0.1 + (percent / 100) * 0.9;
+  return { backgroundColor: `rgba(16, 185, 129, ${alpha})`, color: percent > 50 ? 'white' : undefined };
+}
+
+export default function RetentionCohorts({ logs, firstSeen, timeZone }: RetentionCohortsProps) {
+  const cohorts = useMemo(() => buildCohorts(logs, firstSeen, timeZone), [logs, firstSeen, timeZone]);
+  const weeks = cohorts[0]?.retention.length ?? 0;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-1 text-gray-800">Weekly Retention</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Visitors grouped by the week they were first seen, and the share of them that came back in each later week.
+      </p>
+
+      {cohorts.length === 0 ? (
+        <p className="text-sm text-gray-500">Not enough data for cohorts.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase tracking-wider">
+                <th className="px-3 py-2 text-left font-medium">First Seen</th>
+                <th className="px-3 py-2 text-right font-medium">Visitors</th>
+                {Array.from({ length: weeks }, (_, offset) => (
+                  <th key={offset} className="px-3 py-2 text-center font-medium">Week {offset}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cohorts.map((cohort) => (
+                <tr key={cohort.week}>
+                  <td className="px-3 py-1 whitespace-nowrap text-gray-700">Wk of {format(parseISO(cohort.week), 'MMM dd')}</td>
+                  <td className="px-3 py-1 text-right text-gray-700">{cohort.size.toLocaleString()}</td>
+                  {Array.from({ length: weeks }, (_, offset) => (
+                    <td key={offset} className="px-1 py-1">
+                      {offset < cohort.retention.length && (
+                        <div
+                          className="rounded px-2 py-1 text-center text-xs text-gray-900"
+                          style={cellStyle(cohort.retention[offset], offset)}
+                        >
+                          {cohort.retention[offset].toFixed(0)}%
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
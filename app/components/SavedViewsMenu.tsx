@@ -0,0 +1,205 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react';
+import { getSession } from 'next-auth/react';
+import type { SavedView } from '@/lib/savedViews';
+
+interface SavedViewsMenuProps {
+  // Current dashboard state as URL query parameters
+  query: string;
+  onApply: (query: string) => void;
+}
+
+async function request(url: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Request failed with status ${response.status}`);
+  }
+  return response;
+}
+
+export default function SavedViewsMenu({ query, onApply }: SavedViewsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [user, setUser] = useState<{ id: string; isAdmin: boolean } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newShared, setNewShared] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadViews = useCallback(async () => {
+    try {
+      const response = await request('/api/views');
+      setViews((await response.json()).views);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved views');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadViews();
+    getSession().then((session) => {
+      if (session?.user) setUser({ id: session.user.id, isAdmin: session.user.role === 'admin' });
+    });
+  }, [isOpen, loadViews]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await loadViews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    }
+  };
+
+  const saveCurrent = () => run(async () => {
+    await request('/api/views', {
+      method: 'POST',
+      body: JSON.stringify({ name: newName, query, shared: newShared }),
+    });
+    setNewName('');
+    setNewShared(false);
+  });
+
+  const updateView = (id: string, changes: Partial<Pick<SavedView, 'name' | 'shared'>>) => run(() =>
+    request(`/api/views/${id}`, { method: 'PATCH', body: JSON.stringify(changes) }));
+
+  const deleteView = (view: SavedView) => {
+    if (!window.confirm(`Delete the view "${view.name}"?`)) return;
+    run(() => request(`/api/views/${view.id}`, { method: 'DELETE' }));
+  };
+
+  const copyLink = async (view: SavedView) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/?${view.query}`);
+    setCopiedId(view.id);
+    setTimeout(() => setCopiedId(null), 1500);
+  };
+
+  const canEdit = (view: SavedView) => !!user && (view.owner === user.id || user.isAdmin);
+  const ownViews = views.filter((view) => view.owner === user?.id);
+  const sharedViews = views.filter((view) => view.owner !== user?.id);
+
+  const renderView = (view: SavedView) => (
+    <li key={view.id} className="py-2">
+      {renaming?.id === view.id ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateView(view.id, { name: renaming.name });
+            setRenaming(null);
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            autoFocus
+            value={renaming.name}
+            onChange={(e) => setRenaming({ id: view.id, name: e.target.value })}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button type="submit" className="text-xs text-blue-600 hover:text-blue-800">Save</button>
+          <button type="button" onClick={() => setRenaming(null)} className="text-xs text-gray-500 hover:text-gray-700">Cancel</button>
+        </form>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => {
+                onApply(view.query);
+                setIsOpen(false);
+              }}
+              className="text-sm font-medium text-blue-700 hover:text-blue-900 truncate text-left"
+              title={view.query || 'Default view'}
+            >
+              {view.name}
+            </button>
+            {view.shared && <span className="ml-2 text-xs text-gray-500">shared</span>}
+          </div>
+          {view.owner !== user?.id && <p className="text-xs text-gray-500">by {view.ownerName}</p>}
+          <div className="flex gap-3 mt-1 text-xs">
+            <button onClick={() => copyLink(view)} className="text-gray-600 hover:text-gray-900">
+              {copiedId === view.id ? 'Copied!' : 'Copy link'}
+            </button>
+            {canEdit(view) && (
+              <>
+                <button onClick={() => setRenaming({ id: view.id, name: view.name })} className="text-gray-600 hover:text-gray-900">Rename</button>
+                <button onClick={() => updateView(view.id, { shared: !view.shared })} className="text-gray-600 hover:text-gray-900">
+                  {view.shared ? 'Unshare' : 'Share'}
+                </button>
+                <button onClick={() => deleteView(view)} className="text-red-600 hover:text-red-800">Delete</button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-3 py-1 text-sm text-gray-700 transition-colors border border-gray-300 rounded-md hover:bg-gray-50"
+      >
+        Saved Views
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg p-4 space-y-4">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveCurrent();
+            }}
+            className="space-y-2"
+          >
+            <p className="text-sm font-medium text-gray-700">Save current view</p>
+            <div className="flex gap-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="View name"
+                maxLength={100}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+              >
+                Save
+              </button>
+            </div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input type="checkbox" checked={newShared} onChange={(e) => setNewShared(e.target.checked)} className="mr-2" />
+              Share with everyone
+            </label>
+          </form>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div>
+            <p className="text-sm font-medium text-gray-700">My views</p>
+            {ownViews.length ? (
+              <ul className="divide-y divide-gray-100">{ownViews.map(renderView)}</ul>
+            ) : (
+              <p className="text-sm text-gray-500 py-2">No saved views yet</p>
+            )}
+          </div>
+
+          {sharedViews.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700">Shared with me</p>
+              <ul className="divide-y divide-gray-100 max-h-60 overflow-y-auto">{sharedViews.map(renderView)}</ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
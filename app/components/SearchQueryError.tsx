@@ -0,0 +1,19 @@
+import { SearchQueryError as QueryError } from '@/lib/searchQuery';
+
+// Shows the malformed part of a search query highlighted inline, with the parser message
+export default function SearchQueryError({ query, error }: { query: string; error: QueryError }) {
+  const before = query.slice(0, error.start);
+  const invalid = query.slice(error.start, error.end) || ' ';
+  const after = query.slice(error.end);
+
+  return (
+    <div className="mt-2 text-sm">
+      <p className="font-mono whitespace-pre-wrap break-all text-gray-700">
+        {before}
+        <mark className="bg-red-100 text-red-700 underline decoration-wavy decoration-red-500">{invalid}</mark>
+        {after}
+      </p>
+      <p className="mt-1 text-red-600">{error.message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client'
+import { useEffect, useMemo, useState } from 'react';
+import { DEFAULT_TIME_ZONE, browserTimeZone, listTimeZones, timeZoneLabel } from '@/lib/timezone';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+}
+
+// UTC, the browser's zone, then every IANA zone
+export default function TimeZoneSelect({ value, onChange }: TimeZoneSelectProps) {
+  // Resolved after mount so the server render doesn't depend on the server's zone
+  const [browserZone, setBrowserZone] = useState<string | null>(null);
+  const zones = useMemo(() => listTimeZones(), []);
+
+  useEffect(() => {
+    setBrowserZone(browserTimeZone());
+  }, []);
+
+  const others = zones.filter((zone) => zone !== DEFAULT_TIME_ZONE && zone !== browserZone);
+  // A zone from a link may not be in this runtime's list; keep it selectable
+  if (!zones.includes(value) && value !== browserZone) others.unshift(value);
+
+  return (
+    <label className="flex items-center text-sm text-gray-700">
+      <span className="mr-2">Time zone</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value={DEFAULT_TIME_ZONE}>UTC</option>
+        {browserZone && browserZone !== DEFAULT_TIME_ZONE && (
+          <option value={browserZone}>Browser: {timeZoneLabel(browserZone)}</option>
+        )}
+        <optgroup label="All time zones">
+          {others.map((zone) => (
+            <option key={zone} value={zone}>{timeZoneLabel(zone)}</option>
+          ))}
+        </optgroup>
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,106 @@
+'use client'
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LogEntry } from '@/lib/types';
+import { filterLogs, LogFilters } from '@/lib/logQuery';
+import { buildTimeSeries, logsDateRange, DateRange, Granularity } from '@/lib/timeSeries';
+import { formatInZone } from '@/lib/timezone';
+
+interface TrafficTimeSeriesProps {
+  logs: LogEntry[];
+  filteredLogs: LogEntry[];
+  filters: LogFilters;
+  // Period from the dashboard's compare mode, overlaid on the current one
+  compareRange: DateRange | null;
+}
+
+const GRANULARITIES: { value: Granularity; label: string }[] = [
+  { value: 'hour', label: 'Hourly' },
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+];
+
+const LABEL_FORMATS: Record<Granularity, string> = {
+  hour: 'MMM dd HH:mm',
+  day: 'MMM dd',
+  week: "'Wk of' MMM dd",
+};
+
+export default function TrafficTimeSeries({ logs, filteredLogs, filters, compareRange }: TrafficTimeSeriesProps) {
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const compare = !!compareRange;
+
+  // Use the selected date range, or the span of the filtered data when none is set
+  const range = useMemo(
+    () => (filters.startDate && filters.endDate
+      ? { startDate: filters.startDate, endDate: filters.endDate }
+      : logsDateRange(filteredLogs, filters.timeZone)),
+    [filters.startDate, filters.endDate, filters.timeZone, filteredLogs]
+  );
+
+  const data = useMemo(() => {
+    if (!range) return [];
+
+    if (!compareRange) {
+      return buildTimeSeries(filteredLogs, range, granularity, filters.timeZone);
+    }
+
+    const prevLogs = filterLogs(logs, { ...filters, ...compareRange });
+    return buildTimeSeries(filteredLogs, range, granularity, filters.timeZone, { logs: prevLogs, range: compareRange });
+  }, [logs, filteredLogs, filters, range, granularity, compareRange]);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Traffic Over Time</h3>
+        <div className="flex items-center space-x-2">
+          {GRANULARITIES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setGranularity(value)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${granularity === value
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+                }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(time) => formatInZone(time, LABEL_FORMATS[granularity], filters.timeZone)}
+            />
+            <YAxis allowDecimals={false} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e5e7eb',
+                borderRadius: '8px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                padding: '8px 12px'
+              }}
+              labelFormatter={(time) => formatInZone(time as number, LABEL_FORMATS[granularity], filters.timeZone)}
+            />
+            <Legend />
+            <Line type="monotone" dataKey="hits" name="Hits" stroke="#3B82F6" strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="uniqueIPs" name="Unique IPs" stroke="#10B981" strokeWidth={2} dot={false} />
+            {compare && (
+              <Line type="monotone" dataKey="previousHits" name="Hits (comparison)" stroke="#3B82F6" strokeDasharray="5 5" strokeOpacity={0.5} dot={false} />
+            )}
+            {compare && (
+              <Line type="monotone" dataKey="previousUniqueIPs" name="Unique IPs (comparison)" stroke="#10B981" strokeDasharray="5 5" strokeOpacity={0.5} dot={false} />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+'use client'
+import { signOut } from 'next-auth/react';
+import type { Role } from '@/lib/auth';
+import { clearResourceCache } from '@/lib/useResource';
+
+export default function UserMenu({ name, role }: { name: string; role: Role }) {
+  return (
+    <div className="flex items-center justify-end space-x-3 text-sm text-gray-600">
+      <span>{name}</span>
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${role === 'admin'
+        ? 'bg-purple-100 text-purple-800'
+        : 'bg-gray-100 text-gray-800'
+        }`}
+      >
+        {role}
+      </span>
+      <button
+        onClick={() => {
+          clearResourceCache();
+          signOut({ callbackUrl: '/login' });
+        }}
+        className="px-3 py-1 text-gray-700 border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
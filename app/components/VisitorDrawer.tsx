@@ -0,0 +1,138 @@
+'use client'
+import { useEffect, useMemo, useState } from 'react';
+import { parseISO, formatDistanceStrict } from 'date-fns';
+import { LogEntry } from '@/lib/types';
+import { buildVisitorProfile } from '@/lib/visitors';
+import { formatInZone } from '@/lib/timezone';
+
+interface VisitorDrawerProps {
+  logs: LogEntry[];
+  visitor: string | null;
+  timeZone: string;
+  onClose: () => void;
+}
+
+export default function VisitorDrawer({ logs, visitor, timeZone, onClose }: VisitorDrawerProps) {
+  const [expandedSession, setExpandedSession] = useState<number | null>(0);
+
+  const profile = useMemo(
+    () => (visitor ? buildVisitorProfile(logs, visitor, timeZone) : null),
+    [logs, visitor, timeZone]
+  );
+
+  const formatTime = (timestamp: string, pattern = 'MMM dd, yyyy HH:mm') => formatInZone(timestamp, pattern, timeZone);
+
+  useEffect(() => {
+    setExpandedSession(0);
+  }, [visitor]);
+
+  useEffect(() => {
+    if (!visitor) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [visitor, onClose]);
+
+  if (!visitor) return null;
+
+  // Newest session first, matching the table's default order
+  const sessions = profile ? [...profile.sessions].reverse() : [];
+  const latest = profile?.hits[profile.hits.length - 1];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="relative w-full max-w-xl h-full bg-white shadow-xl overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <p className="text-sm text-gray-500">Visitor</p>
+            <h3 className="text-lg font-semibold font-mono text-gray-900">{profile?.ip ?? visitor}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            title="Close"
+            className="p-2 text-gray-500 hover:text-gray-800 transition-colors"
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!profile ? (
+          <p className="p-6 text-sm text-gray-600">No hits found for this visitor.</p>
+        ) : (
+          <div className="p-6 space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { label: 'Hits', value: profile.hits.length.toLocaleString() },
+                { label: 'Sessions', value: profile.sessions.length.toLocaleString() },
+                { label: 'First Seen', value: formatTime(profile.firstSeen) },
+                { label: 'Last Seen', value: formatTime(profile.lastSeen) },
+                { label: 'Days Active', value: profile.daysActive.toLocaleString() },
+                { label: 'Location', value: [latest?.city, latest?.country].filter(Boolean).join(', ') },
+              ].map(({ label, value }) => (
+                <div key={label} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs font-medium text-gray-500">{label}</p>
+                  <p className="text-sm font-semibold text-gray-900">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Org and City Changes</h4>
+              {profile.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Always seen from {profile.hits[0].org || 'an unknown organization'} in {profile.hits[0].city || 'an unknown city'}.
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {profile.changes.map((change, i) => (
+                    <li key={i} className="flex justify-between text-gray-700">
+                      <span>
+                        <span className="font-medium capitalize">{change.field}</span>: {change.from || 'Unknown'} → {change.to || 'Unknown'}
+                      </span>
+                      <span className="ml-2 text-gray-500 whitespace-nowrap">{formatTime(change.timestamp)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Sessions</h4>
+              <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {sessions.map((session, i) => (
+                  <li key={session.start}>
+                    <button
+                      onClick={() => setExpandedSession(expandedSession === i ? null : i)}
+                      className="w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-50 transition-colors"
+                    >
+                      <span className="text-gray-900">{formatTime(session.start)}</span>
+                      <span className="text-gray-500">
+                        {session.hits.length} {session.hits.length === 1 ? 'hit' : 'hits'}
+                        {session.hits.length > 1 && ` · ${formatDistanceStrict(parseISO(session.end), parseISO(session.start))}`}
+                      </span>
+                    </button>
+                    {expandedSession === i && (
+                      <ul className="bg-gray-50 px-4 py-2 space-y-1">
+                        {session.hits.map((hit, j) => (
+                          <li key={j} className="flex justify-between text-xs text-gray-600">
+                            <span>{formatTime(hit.timestamp, 'HH:mm:ss')}</span>
+                            <span className="truncate ml-2">{[hit.city, hit.country].filter(Boolean).join(', ')} · {hit.org}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client'
+import { useEffect, useMemo, useState } from 'react';
+import { LogEntry, SortDirection } from '@/lib/types';
+import { summarizeVisitors, sortVisitors, VisitorSortField } from '@/lib/visitors';
+import { formatInZone } from '@/lib/timezone';
+
+interface VisitorTableProps {
+  logs: LogEntry[];
+  timeZone: string;
+  onSelectVisitor: (visitor: string) => void;
+}
+
+const COLUMNS: { field: VisitorSortField; label: string }[] = [
+  { field: 'ip', label: 'IP Address' },
+  { field: 'hits', label: 'Hits' },
+  { field: 'sessions', label: 'Sessions' },
+  { field: 'firstSeen', label: 'First Seen' },
+  { field: 'lastSeen', label: 'Last Seen' },
+  { field: 'daysActive', label: 'Days Active' },
+  { field: 'country', label: 'Country' },
+  { field: 'org', label: 'Organization' },
+];
+
+const PAGE_SIZE = 50;
+
+function SortIcon({ active, direction }: { active: boolean; direction: SortDirection }) {
+  if (!active) {
+    return (
+      <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+      </svg>
+    );
+  }
+
+  return (
+    <svg className="h-4 w-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={direction === 'asc' ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'} />
+    </svg>
+  );
+}
+
+export default function VisitorTable({ logs, timeZone, onSelectVisitor }: VisitorTableProps) {
+  const [sortField, setSortField] = useState<VisitorSortField>('hits');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [page, setPage] = useState(1);
+
+  const visitors = useMemo(() => summarizeVisitors(logs, timeZone), [logs, timeZone]);
+  const sorted = useMemo(() => sortVisitors(visitors, sortField, sortDirection), [visitors, sortField, sortDirection]);
+  const totalPages = Math.ceil(sorted.length / PAGE_SIZE);
+  const pageItems = sorted.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  useEffect(() => {
+    setPage(1);
+  }, [logs]);
+
+  const handleSort = (field: VisitorSortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection('asc');
+    }
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-800">Visitors</h3>
+        <p className="text-sm text-gray-600">
+          {`Showing ${sorted.length === 0 ? 0 : ((page - 1) * PAGE_SIZE) + 1} to ${Math.min(page * PAGE_SIZE, sorted.length)} of ${sorted.length} visitors`}
+        </p>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {COLUMNS.map(({ field, label }) => (
+                  <th
+                    key={field}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                    onClick={() => handleSort(field)}
+                  >
+                    <div className="flex items-center space-x-1">
+                      <span>{label}</span>
+                      <SortIcon active={sortField === field} direction={sortDirection} />
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {pageItems.map((visitor) => (
+                <tr key={visitor.key} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">
+                    <button onClick={() => onSelectVisitor(visitor.key)} className="text-blue-600 hover:text-blue-800 hover:underline">
+                      {visitor.ip}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{visitor.hits.toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{visitor.sessions.toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatInZone(visitor.firstSeen, 'MMM dd, yyyy HH:mm', timeZone)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatInZone(visitor.lastSeen, 'MMM dd, yyyy HH:mm', timeZone)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{visitor.daysActive}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      {visitor.country}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{visitor.org}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setPage(Math.max(1, page - 1))}
+            disabled={page === 1}
+            className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-700">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(Math.min(totalPages, page + 1))}
+            disabled={page === totalPages}
+            className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client'
+import { useMemo, useState } from 'react';
+import { geoNaturalEarth1, geoPath } from 'd3-geo';
+import { feature } from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+import type { Feature, Geometry } from 'geojson';
+import worldAtlas from 'world-atlas/countries-110m.json';
+import { LogEntry } from '@/lib/types';
+import { aggregateByCountry, aggregateLocations, countryToNumeric, countryName, LocationMetric, MapMetric } from '@/lib/geo';
+
+interface WorldMapProps {
+  logs: LogEntry[];
+  selectedCountry: string | null;
+  onSelectCountry: (country: string | null) => void;
+}
+
+const WIDTH = 960;
+const HEIGHT = 500;
+const NO_DATA_COLOR = '#E5E7EB';
+const LOW_COLOR = [219, 234, 254];
+const HIGH_COLOR = [30, 58, 138];
+
+const topology = worldAtlas as unknown as Topology<{ countries: GeometryCollection<{ name: string }> }>;
+const countryFeatures = feature(topology, topology.objects.countries).features as Feature<Geometry, { name: string }>[];
+const projection = geoNaturalEarth1().fitSize([WIDTH, HEIGHT], { type: 'Sphere' });
+const pathGenerator = geoPath(projection);
+const countryPaths = countryFeatures.map((country) => ({
+  id: String(country.id),
+  name: country.properties.name,
+  path: pathGenerator(country) ?? '',
+}));
+const spherePath = pathGenerator({ type: 'Sphere' }) ?? '';
+
+// Log-scaled blue ramp so a single dominant country doesn't wash out the rest
+function colorFor(value: number, max: number): string {
+  if (value <= 0 || max <= 0) return NO_DATA_COLOR;
+  const t = Math.log1p(value) / Math.log1p(max);
+  const [r, g, b] = LOW_COLOR.map((low, i) => Math.round(low + (HIGH_COLOR[i] - low) * t));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+function LocationList({ title, items, metric }: { title: string; items: LocationMetric[]; metric: MapMetric }) {
+  const max = items[0]?.[metric] || 1;
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{title}</h4>
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {items.slice(0, 20).map((item) => (
+          <li key={item.name} className="text-sm">
+            <div className="flex justify-between text-gray-700">
+              <span className="truncate">{item.name}</span>
+              <span className="ml-2 text-gray-500">{item[metric].toLocaleString()}</span>
+            </div>
+            <div className="h-1.5 bg-gray-200 rounded-full">
+              <div className="h-1.5 bg-blue-500 rounded-full" style={{ width: `${(item[metric] / max) * 100}%` }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function WorldMap({ logs, selectedCountry, onSelectCountry }: WorldMapProps) {
+  const [metric, setMetric] = useState<MapMetric>('hits');
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const countryMetrics = useMemo(() => aggregateByCountry(logs), [logs]);
+
+  // Map metrics onto world-atlas ids; countries that can't be placed are still listed below
+  const byId = useMemo(() => {
+    const map = new Map<string, LocationMetric>();
+    for (const item of countryMetrics) {
+      const id = countryToNumeric(item.name);
+      if (id) map.set(id, item);
+    }
+    return map;
+  }, [countryMetrics]);
+
+  const max = useMemo(() => Math.max(0, ...countryMetrics.map((item) => item[metric])), [countryMetrics, metric]);
+  const selectedId = selectedCountry ? countryToNumeric(selectedCountry) : null;
+  const locations = useMemo(
+    () => (selectedCountry ? aggregateLocations(logs, selectedCountry) : null),
+    [logs, selectedCountry]
+  );
+
+  const hoveredCountry = hovered ? countryPaths.find((country) => country.id === hovered) : null;
+  const hoveredMetric = hovered ? byId.get(hovered) : null;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Hits by Country</h3>
+        <div className="flex items-center space-x-2">
+          {(['hits', 'uniqueIPs'] as MapMetric[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setMetric(value)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${metric === value
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+                }`}
+            >
+              {value === 'hits' ? 'Hits' : 'Unique IPs'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          <path d={spherePath} fill="#F9FAFB" stroke="#E5E7EB" />
+          {countryPaths.map((country) => {
+            const item = byId.get(country.id);
+            const isSelected = country.id === selectedId;
+            return (
+              <path
+                key={country.id}
+                d={country.path}
+                fill={colorFor(item?.[metric] ?? 0, max)}
+                stroke={isSelected ? '#F59E0B' : '#FFFFFF'}
+                strokeWidth={isSelected ? 2 : 0.5}
+                className={item ? 'cursor-pointer hover:opacity-80' : ''}
+                onMouseEnter={() => setHovered(country.id)}
+                onMouseLeave={() => setHovered(null)}
+                onClick={() => item && onSelectCountry(isSelected ? null : item.name)}
+              />
+            );
+          })}
+        </svg>
+
+        {hoveredCountry && (
+          <div className="absolute top-2 left-2 bg-white border border-gray-200 rounded-lg shadow px-3 py-2 text-sm pointer-events-none">
+            <p className="font-medium text-gray-900">{hoveredCountry.name}</p>
+            <p className="text-gray-600">
+              {hoveredMetric
+                ? `${hoveredMetric.hits.toLocaleString()} hits · ${hoveredMetric.uniqueIPs.toLocaleString()} unique IPs`
+                : 'No traffic'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+        <div className="flex items-center space-x-2">
+          <span>0</span>
+          <div className="w-32 h-2 rounded" style={{ background: `linear-gradient(to right, ${colorFor(1, 1e9)}, ${colorFor(1, 1)})` }} />
+          <span>{max.toLocaleString()}</span>
+        </div>
+        <span>Click a country to filter the dashboard</span>
+      </div>
+
+      {selectedCountry && locations && (
+        <div className="mt-6 bg-white rounded-lg border border-gray-200 p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-semibold text-gray-800">{countryName(selectedCountry)}</h4>
+            <button
+              onClick={() => onSelectCountry(null)}
+              className="px-3 py-1 text-sm text-red-600 hover:text-red-800 transition-colors"
+            >
+              Clear Country Filter
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <LocationList title="Regions" items={locations.regions} metric={metric} />
+            <LocationList title="Cities" items={locations.cities} metric={metric} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import UserMenu from "./components/UserMenu";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,16 +20,23 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const session = await getServerSession(authOptions);
+
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
+        {session?.user && (
+          <div className="container mx-auto px-4 pt-4">
+            <UserMenu name={session.user.name ?? "Signed in"} role={session.user.role} />
+          </div>
+        )}
         {children}
       </body>
     </html>
@@ -0,0 +1,91 @@
+'use client'
+import { FormEvent, Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { signIn } from 'next-auth/react';
+
+interface LoginFormProps {
+  oidcEnabled: boolean;
+  oidcName: string;
+}
+
+function LoginFormContent({ oidcEnabled, oidcName }: LoginFormProps) {
+  const searchParams = useSearchParams();
+  const callbackUrl = searchParams.get('callbackUrl') || '/';
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState(searchParams.get('error') ? 'Sign in failed' : '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    const result = await signIn('credentials', { username, password, callbackUrl, redirect: false });
+    if (result?.ok && !result.error) {
+      window.location.href = result.url ?? callbackUrl;
+      return;
+    }
+    setError('Invalid username or password');
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+          <input
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={isSubmitting || !username || !password}
+          className="w-full px-4 py-2 font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+
+      {oidcEnabled && (
+        <>
+          <div className="flex items-center text-xs text-gray-400">
+            <div className="flex-1 border-t border-gray-200" />
+            <span className="px-2">or</span>
+            <div className="flex-1 border-t border-gray-200" />
+          </div>
+          <button
+            onClick={() => signIn('oidc', { callbackUrl })}
+            className="w-full px-4 py-2 font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Sign in with {oidcName}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function LoginForm(props: LoginFormProps) {
+  return (
+    <Suspense>
+      <LoginFormContent {...props} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,16 @@
+import { isOidcEnabled } from '@/lib/auth';
+import LoginForm from './LoginForm';
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="w-full max-w-sm bg-white rounded-xl shadow-lg p-8">
+        <div className="text-center mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">API Hit Log Dashboard</h1>
+          <p className="text-lg font-bold text-gray-600">MEDTALK</p>
+        </div>
+        <LoginForm oidcEnabled={isOidcEnabled()} oidcName={process.env.OIDC_NAME || 'SSO'} />
+      </div>
+    </div>
+  );
+}
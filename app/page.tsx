@@ -1,274 +1,417 @@
 // pages/index.tsx
 'use client'
-import { useEffect, useState, useMemo } from 'react';
-import { parseISO, format, isWithinInterval, startOfDay, endOfDay } from 'date-fns';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-
-interface LogEntry {
-  ip: string;
-  timestamp: string;
-  country: string;
-  org: string;
-  city: string;
-  region: string;
-}
-
-interface StatsData {
-  total_hits: number;
-  unique_ips: string[];
-  unique_countries: string[];
-  daily_stats: Record<string, {
-    new_hits: number;
-    new_unique_ips: string[];
-    new_unique_countries: string[];
-  }>;
-  last_processed_timestamp: string;
-}
-
-type SortField = 'timestamp' | 'ip' | 'country' | 'org' | 'city';
-type SortDirection = 'asc' | 'desc';
+import { useEffect, useState, useMemo, useRef, useCallback, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { parseISO, format } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { LogEntry, SortKey } from '@/lib/types';
+import { filterLogs } from '@/lib/logQuery';
+import {
+  validateSearchQuery, parseSearchQuery, getFieldValues, setFieldTerm, removeTerms, SearchQueryError as QueryError,
+} from '@/lib/searchQuery';
+import { parseDashboardState, serializeDashboardState, DashboardState, DashboardView } from '@/lib/urlState';
+import { LIVE_POLL_INTERVAL, latestTimestamp, newEntries } from '@/lib/liveTail';
+import { buildGrowthSeries, growthDeltas, globalTotals } from '@/lib/growth';
+import { Anomaly } from '@/lib/anomalies';
+import { firstSeenDays, splitReturning } from '@/lib/retention';
+import { FacetFilter, FACET_LABELS, setFacet } from '@/lib/facets';
+import { parseLogEntries, parseStatsData } from '@/lib/schema';
+import { useResource } from '@/lib/useResource';
+import { logsDateRange } from '@/lib/timeSeries';
+import { CompareMode, periodMetrics, compareCountries } from '@/lib/comparison';
+import {
+  facetBaseLogs, mapBaseLogs, allHitLogsFor, filteredAnomalies, compareRangeFor, compareLogsFor, comparePeriods, globalStatsFor,
+} from '@/lib/analytics';
+import TrafficTimeSeries from './components/TrafficTimeSeries';
+import GrowthSection from './components/GrowthSection';
+import GrowthDelta, { PeriodDelta } from './components/GrowthDelta';
+import SearchQueryError from './components/SearchQueryError';
+import ExportMenu from './components/ExportMenu';
+import WorldMap from './components/WorldMap';
+import OrgPanel from './components/OrgPanel';
+import AlertsPanel from './components/AlertsPanel';
+import VisitorDrawer from './components/VisitorDrawer';
+import VisitorTable from './components/VisitorTable';
+import LogTable from './components/LogTable';
+import RetentionCohorts from './components/RetentionCohorts';
+import FacetSidebar from './components/FacetSidebar';
+import FilterChips, { FilterChip } from './components/FilterChips';
+import SavedViewsMenu from './components/SavedViewsMenu';
+import TimeZoneSelect from './components/TimeZoneSelect';
+import CompareControls from './components/CompareControls';
+import PeriodChanges from './components/PeriodChanges';
+import DataStatus, { FreshnessBanner } from './components/DataStatus';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
 
-export default function Dashboard() {
-  const [search, setSearch] = useState('');
-  const [debouncedSearch, setDebouncedSearch] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(50);
-  const [selectedView, setSelectedView] = useState<'chart' | 'table'>('chart');
+const NO_LOGS: LogEntry[] = [];
+
+function Dashboard() {
+  const searchParams = useSearchParams();
+  const [initialState] = useState(() => parseDashboardState(searchParams));
+  const [search, setSearch] = useState(initialState.search);
+  const [debouncedSearch, setDebouncedSearch] = useState(validateSearchQuery(initialState.search) ? '' : initialState.search);
+  const [searchError, setSearchError] = useState<QueryError | null>(null);
+  const [currentPage, setCurrentPage] = useState(initialState.currentPage);
+  const [pageSize, setPageSize] = useState(initialState.pageSize);
+  const [selectedView, setSelectedView] = useState<DashboardView>(initialState.selectedView);
   const [isLoading, setIsLoading] = useState(false);
-  const [startDate, setStartDate] = useState('');
-  const [endDate, setEndDate] = useState('');
-  const [showDateFilter, setShowDateFilter] = useState(false);
-  const [sortField, setSortField] = useState<SortField>('timestamp');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-  const [uniqueIPsOnly, setUniqueIPsOnly] = useState(false);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [statsData, setStatsData] = useState<StatsData | null>(null);
-  async function getData() {
-    try {
-      const response = await fetch('https://api.medtalk.co/logs/logs');
-      if (!response.ok) {
-        throw new Error(`Failed to fetch data: ${response.status}`);
-      }
-      const logs = await response.json();
-      setLogs(logs);
-    } catch (error) {
-      console.error('Error fetching logs:', error);
-      setLogs([]);
-    }
-  }
+  const [startDate, setStartDate] = useState(initialState.startDate);
+  const [endDate, setEndDate] = useState(initialState.endDate);
+  const [showDateFilter, setShowDateFilter] = useState(!!(initialState.startDate || initialState.endDate));
+  const [sort, setSort] = useState<SortKey[]>(initialState.sort);
+  const [uniqueIPsOnly, setUniqueIPsOnly] = useState(initialState.uniqueIPsOnly);
+  const [excludeDatacenters, setExcludeDatacenters] = useState(initialState.excludeDatacenters);
+  const [facets, setFacets] = useState<FacetFilter[]>(initialState.facets);
+  const [timeZone, setTimeZone] = useState(initialState.timeZone);
+  const [compareMode, setCompareMode] = useState<CompareMode>(initialState.compareMode);
+  const [compareStartDate, setCompareStartDate] = useState(initialState.compareStartDate);
+  const [compareEndDate, setCompareEndDate] = useState(initialState.compareEndDate);
+  const logsResource = useResource('logs', '/api/logs/all', parseLogEntries);
+  const statsResource = useResource('stats', '/api/stats', parseStatsData);
+  const logs = logsResource.data ?? NO_LOGS;
+  const statsData = statsResource.data;
+  const [isLive, setIsLive] = useState(false);
+  const [newHits, setNewHits] = useState(0);
+  const [tableRefresh, setTableRefresh] = useState(0);
+  const [selectedVisitor, setSelectedVisitor] = useState<string | null>(null);
+  const logsRef = useRef(logs);
+  logsRef.current = logs;
+
+  const retryData = () => {
+    logsResource.refresh();
+    statsResource.refresh();
+  };
 
-  async function getStatsData() {
-    try {
-      const response = await fetch('https://api.medtalk.co/logs/stats');
-      if (!response.ok) {
-        throw new Error(`Failed to fetch stats data: ${response.status}`);
+  // Live mode: poll for entries newer than the latest one we have and merge them in
+  const { mutate: setLogs } = logsResource;
+  const { mutate: setStatsData } = statsResource;
+  useEffect(() => {
+    if (!isLive) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const since = latestTimestamp(logsRef.current);
+        const [logsResponse, statsResponse] = await Promise.all([
+          fetch(`/api/logs/all?since=${encodeURIComponent(since)}`),
+          fetch('/api/stats'),
+        ]);
+        if (!logsResponse.ok) {
+          throw new Error(`Failed to fetch new logs: ${logsResponse.status}`);
+        }
+        const incoming = parseLogEntries(await logsResponse.json());
+        if (cancelled) return;
+
+        const fresh = newEntries(logsRef.current, incoming);
+        if (fresh.length > 0) {
+          setLogs((current) => [...(current ?? []), ...fresh]);
+          setNewHits((count) => count + fresh.length);
+          setTableRefresh((count) => count + 1);
+        }
+        if (statsResponse.ok) {
+          const stats = parseStatsData(await statsResponse.json());
+          setStatsData(() => stats);
+        }
+      } catch (error) {
+        console.error('Error polling logs:', error);
       }
-      const stats = await response.json();
-      setStatsData(stats);
-    } catch (error) {
-      console.error('Error fetching stats:', error);
-      setStatsData(null);
-    }
-  }
+    };
 
-  useEffect(() => {
-    getData();
-    getStatsData();
-  }, []);
-  // Debounce search for better performance
+    poll();
+    const timer = setInterval(poll, LIVE_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isLive, setLogs, setStatsData]);
+
+  // Debounce search for better performance, keeping the last valid query while the current one is malformed
   useEffect(() => {
     const timer = setTimeout(() => {
-      setDebouncedSearch(search);
+      const error = validateSearchQuery(search);
+      setSearchError(error);
+      if (!error) {
+        setDebouncedSearch(search);
+      }
       setIsLoading(false);
     }, 300);
 
     return () => clearTimeout(timer);
   }, [search]);
 
-  // Memoize filtered data for better performance
-  const filteredLogs = useMemo(() => {
-    let filtered = logs.filter((log) =>
-      log.country.toLowerCase().includes(debouncedSearch.toLowerCase()) ||
-      log.org.toLowerCase().includes(debouncedSearch.toLowerCase()) ||
-      log.ip.includes(debouncedSearch)
-    );
+  // Keep the view state in sync with the URL so reloads, links and back/forward restore it
+  const urlState: DashboardState = {
+    search: debouncedSearch,
+    startDate,
+    endDate,
+    uniqueIPsOnly,
+    excludeDatacenters,
+    facets,
+    sort,
+    currentPage,
+    pageSize,
+    selectedView,
+    timeZone,
+    compareMode,
+    compareStartDate,
+    compareEndDate,
+  };
+  const urlQuery = serializeDashboardState(urlState).toString();
+  const urlQueryRef = useRef(urlQuery);
+  urlQueryRef.current = urlQuery;
 
-    // Apply date range filter if dates are selected
-    if (startDate && endDate) {
-      const start = startOfDay(new Date(startDate));
-      const end = endOfDay(new Date(endDate));
+  useEffect(() => {
+    const incoming = parseDashboardState(searchParams);
+    if (serializeDashboardState(incoming).toString() === urlQueryRef.current) return;
 
-      filtered = filtered.filter((log) => {
-        const logDate = parseISO(log.timestamp);
-        return isWithinInterval(logDate, { start, end });
-      });
+    setSearch(incoming.search);
+    if (!validateSearchQuery(incoming.search)) {
+      setDebouncedSearch(incoming.search);
     }
+    setStartDate(incoming.startDate);
+    setEndDate(incoming.endDate);
+    setUniqueIPsOnly(incoming.uniqueIPsOnly);
+    setExcludeDatacenters(incoming.excludeDatacenters);
+    setFacets(incoming.facets);
+    setSort(incoming.sort);
+    setCurrentPage(incoming.currentPage);
+    setPageSize(incoming.pageSize);
+    setSelectedView(incoming.selectedView);
+    setTimeZone(incoming.timeZone);
+    setCompareMode(incoming.compareMode);
+    setCompareStartDate(incoming.compareStartDate);
+    setCompareEndDate(incoming.compareEndDate);
+  }, [searchParams]);
 
-    // Apply unique IPs filter if enabled
-    if (uniqueIPsOnly) {
-      const seenIPs = new Set<string>();
-      filtered = filtered.filter((log) => {
-        if (seenIPs.has(log.ip)) {
-          return false;
-        }
-        seenIPs.add(log.ip);
-        return true;
-      });
+  useEffect(() => {
+    const current = new URLSearchParams(window.location.search);
+    if (urlQuery === current.toString()) return;
+
+    // Search edits and normalizing invalid params replace the history entry instead of adding one
+    const replace = serializeDashboardState({ ...parseDashboardState(current), search: debouncedSearch }).toString() === urlQuery;
+    const url = urlQuery ? `?${urlQuery}` : window.location.pathname;
+    if (replace) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
     }
+  }, [urlQuery, debouncedSearch]);
 
-    return filtered;
-  }, [logs, debouncedSearch, startDate, endDate, uniqueIPsOnly]);
-
-  // Memoize sorted and paginated data
-  const sortedAndPaginatedLogs = useMemo(() => {
-    const sorted = [...filteredLogs];
-
-    // Sort the data
-    sorted.sort((a, b) => {
-      let aValue: string | number;
-      let bValue: string | number;
-
-      switch (sortField) {
-        case 'timestamp':
-          aValue = parseISO(a.timestamp).getTime();
-          bValue = parseISO(b.timestamp).getTime();
-          break;
-        case 'ip':
-          aValue = a.ip;
-          bValue = b.ip;
-          break;
-        case 'country':
-          aValue = a.country;
-          bValue = b.country;
-          break;
-        case 'org':
-          aValue = a.org;
-          bValue = b.org;
-          break;
-        case 'city':
-          aValue = a.city;
-          bValue = b.city;
-          break;
-        default:
-          aValue = a.timestamp;
-          bValue = b.timestamp;
-      }
+  // Memoize filtered data for better performance
+  const filters = useMemo(
+    () => ({ search: debouncedSearch, startDate, endDate, uniqueIPsOnly, excludeDatacenters, facets, timeZone }),
+    [debouncedSearch, startDate, endDate, uniqueIPsOnly, excludeDatacenters, facets, timeZone]
+  );
+  const filteredLogs = useMemo(() => filterLogs(logs, filters), [logs, filters]);
 
-      if (sortDirection === 'asc') {
-        return aValue > bValue ? 1 : -1;
-      } else {
-        return aValue < bValue ? 1 : -1;
-      }
-    });
+  const facetLogs = useMemo(() => facetBaseLogs(logs, filters), [logs, filters]);
 
-    // Apply pagination
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return sorted.slice(startIndex, startIndex + itemsPerPage);
-  }, [filteredLogs, sortField, sortDirection, currentPage, itemsPerPage]);
+  const selectedCountry = getFieldValues(debouncedSearch, 'country')[0] ?? null;
+  const mapLogs = useMemo(() => mapBaseLogs(logs, filters), [logs, filters]);
 
-  // Memoize chart data
-  const chartData = useMemo(() => {
-    const countryCounts = filteredLogs.reduce((acc, log) => {
-      acc[log.country] = (acc[log.country] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+  const selectCountry = (country: string | null) => {
+    const next = setFieldTerm(debouncedSearch, 'country', country);
+    setSearch(next);
+    setDebouncedSearch(next);
+    setCurrentPage(1);
+  };
 
-    return Object.entries(countryCounts)
-      .map(([country, count]) => ({ country, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10); // Show top 10 countries
-  }, [filteredLogs]);
+  const allHitLogs = useMemo(() => allHitLogsFor(logs, filters, filteredLogs), [logs, filters, filteredLogs]);
 
-  // Pagination
-  const totalPages = Math.ceil(filteredLogs.length / itemsPerPage);
+  // First-seen days come from all traffic, so a visitor filtered down to one country is still returning
+  const firstSeen = useMemo(() => firstSeenDays(logs, statsData, timeZone), [logs, statsData, timeZone]);
+  const returningSplit = useMemo(
+    () => splitReturning(allHitLogs, firstSeen, timeZone),
+    [allHitLogs, firstSeen, timeZone]
+  );
+
+  const anomalies = useMemo(() => filteredAnomalies(allHitLogs, statsData, filters), [allHitLogs, statsData, filters]);
+
+  const selectAnomaly = (anomaly: Anomaly) => {
+    switch (anomaly.kind) {
+      case 'ip_burst':
+      case 'org_burst': {
+        const next = setFieldTerm(debouncedSearch, anomaly.kind === 'ip_burst' ? 'ip' : 'org', anomaly.subject);
+        setSearch(next);
+        setDebouncedSearch(next);
+        setCurrentPage(1);
+        break;
+      }
+      case 'country_spike':
+        selectCountry(anomaly.subject);
+        break;
+      case 'daily_drop':
+        setStartDate(anomaly.start);
+        setEndDate(anomaly.end);
+        setShowDateFilter(true);
+        setCurrentPage(1);
+        break;
+    }
+  };
+
+  // Compare mode: the same filters over another period. Without a date filter the current
+  // period is the span of the filtered data.
+  const compareRange = useMemo(
+    () => compareRangeFor(filters, filteredLogs, {
+      mode: compareMode,
+      custom: { startDate: compareStartDate, endDate: compareEndDate },
+    }),
+    [filters, filteredLogs, compareMode, compareStartDate, compareEndDate]
+  );
+  const compareLogs = useMemo(() => compareLogsFor(logs, filters, compareRange), [logs, filters, compareRange]);
+  const compareLabel = compareRange
+    ? `${format(parseISO(compareRange.startDate), 'MMM dd')} - ${format(parseISO(compareRange.endDate), 'MMM dd, yyyy')}`
+    : '';
+
+  // Memoize chart data, top 10 countries
+  const chartData = useMemo(() => compareCountries(filteredLogs, compareLogs ?? []), [filteredLogs, compareLogs]);
 
   // Stats
-  const stats = useMemo(() => {
-    const uniqueIPs = new Set(filteredLogs.map(log => log.ip)).size;
-    const uniqueCountries = new Set(filteredLogs.map(log => log.country)).size;
-    const totalHits = filteredLogs.length;
-
-    return { uniqueIPs, uniqueCountries, totalHits };
-  }, [filteredLogs]);
-
-  // Global stats from API
-  const globalStats = useMemo(() => {
-    if (!statsData) return { totalHits: 0, uniqueUsers: 0, uniqueCountries: 0 };
-    
-    const totalHits = statsData.total_hits || 0;
-    const uniqueUsers = statsData.unique_ips;
-    const uniqueCountries = statsData.unique_countries ;
-    
-    console.log('API Stats:', {
-      total_hits: totalHits,
-      unique_users: statsData.unique_ips,
-      unique_countries: statsData.unique_countries
-    });
-    
-    return {
-      totalHits,
-      uniqueUsers,
-      uniqueCountries
-    };
-  }, [statsData]);
+  const stats = useMemo(() => periodMetrics(filteredLogs), [filteredLogs]);
+
+  const comparison = useMemo(
+    () => (compareRange && compareLogs ? comparePeriods(filteredLogs, stats, compareLogs, compareRange) : null),
+    [stats, filteredLogs, compareLogs, compareRange]
+  );
+
+  // Global stats from API, or from the logs when datacenter traffic is excluded
+  const allTimeStats = useMemo(
+    () => globalStatsFor(logs, statsData, { excludeDatacenters }),
+    [logs, statsData, excludeDatacenters]
+  );
+  const globalStats = useMemo(() => globalTotals(allTimeStats), [allTimeStats]);
+
+  // Daily growth
+  const growthSeries = useMemo(() => buildGrowthSeries(allTimeStats), [allTimeStats]);
+  const growth = useMemo(() => ({
+    hits: growthDeltas(growthSeries, 'cumulativeHits'),
+    users: growthDeltas(growthSeries, 'cumulativeUsers'),
+    countries: growthDeltas(growthSeries, 'cumulativeCountries'),
+  }), [growthSeries]);
+
+  // First and last day of the logs in the zone, for date picker limits
+  const availableRange = useMemo(() => logsDateRange(logs, timeZone), [logs, timeZone]);
 
-  // Get min and max dates from logs for date picker limits
-  const dateRange = useMemo(() => {
-    const dates = logs.map(log => parseISO(log.timestamp));
-    const minDate = new Date(Math.min(...dates.map(d => d.getTime())));
-    const maxDate = new Date(Math.max(...dates.map(d => d.getTime())));
-    return { minDate, maxDate };
-  }, [logs]);
+  const closeVisitorDrawer = useCallback(() => setSelectedVisitor(null), []);
 
   const clearDateFilter = () => {
     setStartDate('');
     setEndDate('');
   };
 
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortDirection('asc');
-    }
+  const changeFacets = (next: FacetFilter[]) => {
+    setFacets(next);
+    setCurrentPage(1);
+  };
+
+  // Navigating to the view's query lets the URL sync effect restore its state
+  const applySavedView = (query: string) => {
+    window.history.pushState(null, '', query ? `?${query}` : window.location.pathname);
+  };
+
+  const clearAllFilters = () => {
+    setSearch('');
+    setDebouncedSearch('');
+    setSearchError(null);
+    clearDateFilter();
+    setUniqueIPsOnly(false);
+    setExcludeDatacenters(false);
+    setFacets([]);
+    setCurrentPage(1);
+  };
+
+  const removeSearchTerm = (start: number) => {
+    const next = removeTerms(debouncedSearch, (term) => term.start === start);
+    setSearch(next);
+    setDebouncedSearch(next);
+    setCurrentPage(1);
+  };
+
+  // Every active filter as a removable chip
+  const filterChips: FilterChip[] = [
+    ...parseSearchQuery(debouncedSearch).map((term) => ({
+      key: `search:${term.start}`,
+      label: debouncedSearch.slice(term.start, term.end),
+      exclude: term.negated,
+      onRemove: () => removeSearchTerm(term.start),
+    })),
+    ...(startDate && endDate ? [{
+      key: 'dates',
+      label: `${format(parseISO(startDate), 'MMM dd')} - ${format(parseISO(endDate), 'MMM dd, yyyy')}`,
+      onRemove: clearDateFilter,
+    }] : []),
+    ...(uniqueIPsOnly ? [{ key: 'unique', label: 'Unique visitors only', onRemove: () => setUniqueIPsOnly(false) }] : []),
+    ...(excludeDatacenters ? [{ key: 'nodc', label: 'No datacenter traffic', onRemove: () => setExcludeDatacenters(false) }] : []),
+    ...facets.map((facet) => ({
+      key: `facet:${facet.exclude}:${facet.field}:${facet.value}`,
+      label: `${facet.exclude ? 'Not ' : ''}${FACET_LABELS[facet.field]}: ${facet.value || 'Unknown'}`,
+      exclude: facet.exclude,
+      onRemove: () => changeFacets(setFacet(facets, facet.field, facet.value, null)),
+    })),
+  ];
+  const hasActiveFilters = !!(search || startDate || endDate || uniqueIPsOnly || excludeDatacenters || facets.length);
+
+  const changeSort = (next: SortKey[]) => {
+    setSort(next);
     setCurrentPage(1); // Reset to first page when sorting
   };
 
-  const getSortIcon = (field: SortField) => {
-    if (sortField !== field) {
-      return (
-        <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
-        </svg>
-      );
-    }
+  const changePageSize = (next: number) => {
+    setPageSize(next);
+    setCurrentPage(1);
+  };
+  const header = (
+    <div className="text-center mb-8">
+      <h1 className="text-4xl font-bold text-gray-800 mb-2">API Hit Log Dashboard</h1>
+      <p className="text-2xl font-bold text-gray-600">MEDTALK</p>
+    </div>
+  );
 
-    return sortDirection === 'asc' ? (
-      <svg className="h-4 w-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-      </svg>
-    ) : (
-      <svg className="h-4 w-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-      </svg>
+  // Until there are logs, show why instead of a dashboard full of zeros
+  if (logsResource.status !== 'ready' || logs.length === 0) {
+    return (
+      <div className="min-h-screen">
+        <div className="container mx-auto px-4 py-8">
+          {header}
+          <DataStatus
+            status={logsResource.status === 'ready' ? 'empty' : logsResource.status}
+            error={logsResource.error}
+            retryCount={logsResource.retryCount}
+            onRetry={retryData}
+          />
+        </div>
+      </div>
     );
-  };
+  }
+
+  const refreshFailures = [
+    { label: 'logs', resource: logsResource },
+    { label: 'all-time stats', resource: statsResource },
+  ].flatMap(({ label, resource }) => (
+    resource.error && !resource.isValidating ? [{ label, error: resource.error, fetchedAt: resource.fetchedAt }] : []
+  ));
 
   return (
     <div className="min-h-screen">
       <div className="container mx-auto px-4 py-8">
-        {/* Header */}
-        <div className="text-center mb-8">
-          <h1 className="text-4xl font-bold text-gray-800 mb-2">API Hit Log Dashboard</h1>
-          <p className="text-2xl font-bold text-gray-600">MEDTALK</p>
-        </div>
-
+        {header}
 
+        <FreshnessBanner
+          lastProcessed={statsData?.last_processed_timestamp ?? null}
+          timeZone={timeZone}
+          isRefreshing={logsResource.isValidating || statsResource.isValidating}
+          failures={refreshFailures}
+          onRetry={retryData}
+        />
 
         {/* Global Stats Cards */}
+        {excludeDatacenters && growthSeries.length > 0 && (
+          <p className="text-sm text-gray-600 mb-2">
+            Without datacenter traffic, these totals and the growth charts only cover the loaded logs since{' '}
+            {format(parseISO(growthSeries[0].date), 'MMM dd, yyyy')}, not all time.
+          </p>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
           {/* Grand Total Hits */}
           <div className="bg-white rounded-xl shadow-lg p-6">
@@ -280,7 +423,8 @@ export default function Dashboard() {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Total Reports Generated</p>
-                <p className="text-2xl font-bold text-gray-900">{(globalStats?.totalHits || 0).toLocaleString()}</p>
+                <p className="text-2xl font-bold text-gray-900">{allTimeStats ? globalStats.totalHits.toLocaleString() : '-'}</p>
+                <GrowthDelta deltas={growth.hits} />
               </div>
             </div>
           </div>
@@ -295,7 +439,8 @@ export default function Dashboard() {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Total Unique Users</p>
-                <p className="text-2xl font-bold text-gray-900">{(globalStats?.uniqueUsers || 0).toLocaleString()}</p>
+                <p className="text-2xl font-bold text-gray-900">{allTimeStats ? globalStats.uniqueUsers.toLocaleString() : '-'}</p>
+                <GrowthDelta deltas={growth.users} />
               </div>
             </div>
           </div>
@@ -311,12 +456,16 @@ export default function Dashboard() {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Total Countries</p>
-                <p className="text-2xl font-bold text-gray-900">{globalStats?.uniqueCountries || 0}</p>
+                <p className="text-2xl font-bold text-gray-900">{allTimeStats ? globalStats.uniqueCountries : '-'}</p>
+                <GrowthDelta deltas={growth.countries} />
               </div>
             </div>
           </div>
         </div>
 
+        {/* Growth */}
+        <GrowthSection series={growthSeries} />
+
         {/* Filterable Data Section */}
         <div className="mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -324,23 +473,32 @@ export default function Dashboard() {
               <h2 className="text-xl font-semibold text-gray-900">Filterable Data Analysis</h2>
               <p className="text-sm text-gray-600 mt-1">
                 {startDate && endDate 
-                  ? `Showing data from ${format(new Date(startDate), 'MMM dd, yyyy')} to ${format(new Date(endDate), 'MMM dd, yyyy')}`
+                  ? `Showing data from ${format(parseISO(startDate), 'MMM dd, yyyy')} to ${format(parseISO(endDate), 'MMM dd, yyyy')}`
                   : startDate 
-                    ? `Showing data from ${format(new Date(startDate), 'MMM dd, yyyy')} onwards`
+                    ? `Showing data from ${format(parseISO(startDate), 'MMM dd, yyyy')} onwards`
                     : endDate
-                      ? `Showing data up to ${format(new Date(endDate), 'MMM dd, yyyy')}`
-                      : 'Showing data for last 15 days'
+                      ? `Showing data up to ${format(parseISO(endDate), 'MMM dd, yyyy')}`
+                      : availableRange
+                        ? `Showing all data, ${format(parseISO(availableRange.startDate), 'MMM dd, yyyy')} to ${format(parseISO(availableRange.endDate), 'MMM dd, yyyy')}`
+                        : 'Showing all data'
                 }
               </p>
             </div>
-            {(startDate || endDate) && (
-              <button
-                onClick={clearDateFilter}
-                className="px-3 py-1 text-sm text-red-600 hover:text-red-800 transition-colors border border-red-200 rounded-md hover:bg-red-50"
-              >
-                Clear All Filters
-              </button>
-            )}
+            <div className="flex items-center gap-2">
+              <TimeZoneSelect value={timeZone} onChange={setTimeZone} />
+              <SavedViewsMenu
+                query={serializeDashboardState({ ...urlState, currentPage: 1 }).toString()}
+                onApply={applySavedView}
+              />
+              {hasActiveFilters && (
+                <button
+                  onClick={clearAllFilters}
+                  className="px-3 py-1 text-sm text-red-600 hover:text-red-800 transition-colors border border-red-200 rounded-md hover:bg-red-50"
+                >
+                  Clear All Filters
+                </button>
+              )}
+            </div>
           </div>
         </div>
 
@@ -351,13 +509,16 @@ export default function Dashboard() {
             <div className="relative">
               <input
                 type="text"
-                placeholder="Search by IP, country, or organization..."
+                placeholder='Search, e.g. country:US org:"Google LLC" -city:Ashburn ip:10.0.0.0/8 after:2025-08-01'
                 value={search}
                 onChange={(e) => {
                   setSearch(e.target.value);
                   setIsLoading(true);
                 }}
-                className="w-full px-4 py-3 pl-12 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={`w-full px-4 py-3 pl-12 border rounded-lg focus:outline-none focus:ring-2 focus:border-transparent ${searchError
+                  ? 'border-red-300 focus:ring-red-500'
+                  : 'border-gray-200 focus:ring-blue-500'
+                  }`}
               />
               {isLoading ? (
                 <svg className="absolute left-4 top-3.5 h-4 w-4 text-blue-500 animate-spin" fill="none" viewBox="0 0 24 24">
@@ -369,6 +530,7 @@ export default function Dashboard() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                 </svg>
               )}
+              {searchError && <SearchQueryError query={search} error={searchError} />}
             </div>
 
             {/* Filter Toggles */}
@@ -398,6 +560,43 @@ export default function Dashboard() {
                   </svg>
                   User Count Only
                 </button>
+
+                {/* Datacenter Traffic Toggle */}
+                <button
+                  onClick={() => setExcludeDatacenters(!excludeDatacenters)}
+                  title="Exclude cloud providers, hosting companies and crawlers from every metric"
+                  className={`flex items-center px-4 py-2 text-sm font-medium rounded-lg transition-colors ${excludeDatacenters
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                >
+                  <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01" />
+                  </svg>
+                  Exclude Datacenters
+                </button>
+
+                {/* Live Mode Toggle */}
+                <button
+                  onClick={() => setIsLive(!isLive)}
+                  className={`flex items-center px-4 py-2 text-sm font-medium rounded-lg transition-colors ${isLive
+                    ? 'bg-green-500 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                >
+                  <span className={`h-2 w-2 mr-2 rounded-full ${isLive ? 'bg-white animate-pulse' : 'bg-gray-400'}`} />
+                  {isLive ? 'Live - Pause' : 'Go Live'}
+                </button>
+
+                {newHits > 0 && (
+                  <button
+                    onClick={() => setNewHits(0)}
+                    title="Dismiss"
+                    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 hover:bg-green-200"
+                  >
+                    {newHits.toLocaleString()} new {newHits === 1 ? 'hit' : 'hits'}
+                  </button>
+                )}
               </div>
 
               {(startDate || endDate) && (
@@ -419,8 +618,8 @@ export default function Dashboard() {
                     type="date"
                     value={startDate}
                     onChange={(e) => setStartDate(e.target.value)}
-                    min={format(dateRange.minDate, 'yyyy-MM-dd')}
-                    max={endDate || format(dateRange.maxDate, 'yyyy-MM-dd')}
+                    min={availableRange?.startDate}
+                    max={endDate || availableRange?.endDate}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
@@ -430,15 +629,19 @@ export default function Dashboard() {
                     type="date"
                     value={endDate}
                     onChange={(e) => setEndDate(e.target.value)}
-                    min={startDate || format(dateRange.minDate, 'yyyy-MM-dd')}
-                    max={format(dateRange.maxDate, 'yyyy-MM-dd')}
+                    min={startDate || availableRange?.startDate}
+                    max={availableRange?.endDate}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
                 <div className="flex items-end">
                   <div className="text-sm text-gray-600">
                     <p>Available Data Range:</p>
-                    <p>{format(dateRange.minDate, 'MMM dd, yyyy')} - {format(dateRange.maxDate, 'MMM dd, yyyy')}</p>
+                    <p>
+                      {availableRange
+                        ? `${format(parseISO(availableRange.startDate), 'MMM dd, yyyy')} - ${format(parseISO(availableRange.endDate), 'MMM dd, yyyy')}`
+                        : 'No data'}
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-end">
@@ -446,11 +649,11 @@ export default function Dashboard() {
                     <p>Selected Date Range:</p>
                     <p className="font-medium text-blue-600">
                       {startDate && endDate 
-                        ? `${format(new Date(startDate), 'MMM dd, yyyy')} - ${format(new Date(endDate), 'MMM dd, yyyy')}`
+                        ? `${format(parseISO(startDate), 'MMM dd, yyyy')} - ${format(parseISO(endDate), 'MMM dd, yyyy')}`
                         : startDate 
-                          ? `${format(new Date(startDate), 'MMM dd, yyyy')} - Select end date`
+                          ? `${format(parseISO(startDate), 'MMM dd, yyyy')} - Select end date`
                           : endDate
-                            ? `Select start date - ${format(new Date(endDate), 'MMM dd, yyyy')}`
+                            ? `Select start date - ${format(parseISO(endDate), 'MMM dd, yyyy')}`
                             : 'Select start and end dates'
                       }
                     </p>
@@ -458,278 +661,275 @@ export default function Dashboard() {
                 </div>
               </div>
             )}
+
+            <FilterChips chips={filterChips} />
           </div>
         </div>
 
-        {/* Filtered Data Metrics */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-          {/* Total Page Views */}
-          <div className="bg-white rounded-xl shadow-lg p-6">
-            <div className="flex items-center">
-              <div className="p-3 rounded-full bg-orange-100">
-                <svg className="h-5 w-5 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-                </svg>
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Page Views</p>
-                <p className="text-2xl font-bold text-gray-900">{stats.totalHits.toLocaleString()}</p>
-              </div>
-            </div>
+        <div className="lg:flex lg:items-start lg:space-x-6">
+          <div className="lg:w-72 lg:shrink-0 mb-8">
+            <FacetSidebar logs={facetLogs} facets={facets} onChange={changeFacets} />
           </div>
 
-          {/* Geographic Reach */}
-          <div className="bg-white rounded-xl shadow-lg p-6">
-            <div className="flex items-center">
-              <div className="p-3 rounded-full bg-teal-100">
-                <svg className="h-5 w-5 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                </svg>
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Geographic Reach</p>
-                <p className="text-2xl font-bold text-gray-900">{stats.uniqueCountries} Countries</p>
-              </div>
+          <div className="flex-1 min-w-0">
+            <div className="mb-4">
+              <CompareControls
+                mode={compareMode}
+                custom={{ startDate: compareStartDate, endDate: compareEndDate }}
+                range={compareRange}
+                rangeLabel={compareLabel}
+                onModeChange={setCompareMode}
+                onCustomChange={(range) => {
+                  setCompareStartDate(range.startDate);
+                  setCompareEndDate(range.endDate);
+                }}
+              />
             </div>
-          </div>
 
-          {/* Unique Visitors */}
-          <div className="bg-white rounded-xl shadow-lg p-6">
-            <div className="flex items-center">
-              <div className="p-3 rounded-full bg-indigo-100">
-                <svg className="h-5 w-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
-                </svg>
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Unique Visitors</p>
-                <p className="text-2xl font-bold text-gray-900">{stats.uniqueIPs.toLocaleString()}</p>
+            {/* Filtered Data Metrics */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              {/* Total Page Views */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <div className="flex items-center">
+                  <div className="p-3 rounded-full bg-orange-100">
+                    <svg className="h-5 w-5 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                    </svg>
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">Page Views</p>
+                    <p className="text-2xl font-bold text-gray-900">{stats.totalHits.toLocaleString()}</p>
+                    <PeriodDelta delta={comparison?.deltas.totalHits ?? null} label={compareLabel} />
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </div>
 
-        {/* View Toggle */}
-        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
-          <div className="flex space-x-4 mb-6">
-            <button
-              onClick={() => setSelectedView('chart')}
-              className={`px-4 py-2 rounded-lg font-medium transition-colors ${selectedView === 'chart'
-                ? 'bg-blue-500 text-white'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
-            >
-              Chart View
-            </button>
-            <button
-              onClick={() => setSelectedView('table')}
-              className={`px-4 py-2 rounded-lg font-medium transition-colors ${selectedView === 'table'
-                ? 'bg-blue-500 text-white'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
-            >
-              Table View
-            </button>
-          </div>
-
-          {selectedView === 'chart' ? (
-            <div className="space-y-6">
-              <div className="bg-gray-50 rounded-lg p-6">
-                <h3 className="text-lg font-semibold mb-4 text-gray-800">Top Countries by Hits</h3>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={chartData}>
-                      <XAxis dataKey="country" />
-                      <YAxis />
-                      <Tooltip
-                        contentStyle={{
-                          backgroundColor: 'white',
-                          border: '1px solid #e5e7eb',
-                          borderRadius: '8px',
-                          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-                          padding: '8px 12px'
-                        }}
-                        formatter={(value, name) => [`${value} hits`, name]}
-                        labelFormatter={(label) => `${label}`}
-                      />
-                      <Bar dataKey="count" fill="#3B82F6" radius={[4, 4, 0, 0]} />
-                    </BarChart>
-                  </ResponsiveContainer>
+              {/* Geographic Reach */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <div className="flex items-center">
+                  <div className="p-3 rounded-full bg-teal-100">
+                    <svg className="h-5 w-5 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                    </svg>
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">Geographic Reach</p>
+                    <p className="text-2xl font-bold text-gray-900">{stats.uniqueCountries} Countries</p>
+                    <PeriodDelta delta={comparison?.deltas.uniqueCountries ?? null} label={compareLabel} />
+                  </div>
                 </div>
               </div>
 
-              <div className="bg-gray-50 rounded-lg p-6">
-                <h3 className="text-lg font-semibold mb-4 text-gray-800">Country Distribution</h3>
-                <div className="h-96">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={chartData}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={true}
-                        label={({ country, percent }) => {
-                          const percentage = ((percent || 0) * 100).toFixed(1);
-                          return parseFloat(percentage) > 2 ? `${country}\n${percentage}%` : '';
-                        }}
-                        outerRadius={120}
-                        innerRadius={40}
-                        fill="#8884d8"
-                        dataKey="count"
-                        paddingAngle={2}
-                      >
-                        {chartData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                      </Pie>
-                      <Tooltip
-                        contentStyle={{
-                          backgroundColor: 'white',
-                          border: '1px solid #e5e7eb',
-                          borderRadius: '8px',
-                          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-                          padding: '8px 12px'
-                        }}
-                        formatter={(value, name) => [`${value} hits`, name]}
-                        labelFormatter={(label) => `${label}`}
-                        cursor={{ fill: 'rgba(0, 0, 0, 0.1)' }}
-                      />
-                    </PieChart>
-                  </ResponsiveContainer>
-                </div>
-                {/* Legend for small percentages */}
-                <div className="mt-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
-                  {chartData.map((entry, index) => {
-                    const percentage = ((entry.count / filteredLogs.length) * 100).toFixed(1);
-                    if (parseFloat(percentage) <= 2) {
-                      return (
-                        <div key={entry.country} className="flex items-center space-x-2 text-sm">
-                          <div
-                            className="w-3 h-3 rounded-full"
-                            style={{ backgroundColor: COLORS[index % COLORS.length] }}
-                          />
-                          <span className="text-gray-700">{entry.country}</span>
-                          <span className="text-gray-500">({percentage}%)</span>
-                        </div>
-                      );
-                    }
-                    return null;
-                  })}
+              {/* Unique Visitors */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <div className="flex items-center">
+                  <div className="p-3 rounded-full bg-indigo-100">
+                    <svg className="h-5 w-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
+                    </svg>
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">Unique Visitors</p>
+                    <p className="text-2xl font-bold text-gray-900">{stats.uniqueIPs.toLocaleString()}</p>
+                    <PeriodDelta delta={comparison?.deltas.uniqueIPs ?? null} label={compareLabel} />
+                    <p className="mt-1 text-xs text-gray-500">
+                      <span className="text-indigo-600">{returningSplit.newVisitors.toLocaleString()} new</span>
+                      {' · '}
+                      <span className="text-green-600">{returningSplit.returningVisitors.toLocaleString()} returning</span>
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
-          ) : (
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <h3 className="text-lg font-semibold text-gray-800">Log Entries</h3>
-                <p className="text-sm text-gray-600">
-                  Showing {((currentPage - 1) * itemsPerPage) + 1} to {Math.min(currentPage * itemsPerPage, filteredLogs.length)} of {filteredLogs.length} entries
-                </p>
-              </div>
 
-              <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
-                <div className="overflow-x-auto">
-                  <table className="min-w-full divide-y divide-gray-200">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort('ip')}
-                        >
-                          <div className="flex items-center space-x-1">
-                            <span>IP Address</span>
-                            {getSortIcon('ip')}
-                          </div>
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort('timestamp')}
-                        >
-                          <div className="flex items-center space-x-1">
-                            <span>Timestamp UTC</span>
-                            {getSortIcon('timestamp')}
-                          </div>
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort('country')}
-                        >
-                          <div className="flex items-center space-x-1">
-                            <span>Country</span>
-                            {getSortIcon('country')}
-                          </div>
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort('org')}
-                        >
-                          <div className="flex items-center space-x-1">
-                            <span>Organization</span>
-                            {getSortIcon('org')}
-                          </div>
-                        </th>
-                        <th
-                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleSort('city')}
-                        >
-                          <div className="flex items-center space-x-1">
-                            <span>City</span>
-                            {getSortIcon('city')}
-                          </div>
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      {sortedAndPaginatedLogs.map((log, i) => (
-                        <tr key={i} className="hover:bg-gray-50 transition-colors">
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{log.ip}</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {format(parseISO(log.timestamp), 'MMM dd, yyyy HH:mm')}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                              {log.country}
-                            </span>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{log.org}</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{log.city}</td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
+            <AlertsPanel anomalies={anomalies} timeZone={timeZone} onSelect={selectAnomaly} />
+
+            {/* View Toggle */}
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex space-x-4">
+                  <button
+                    onClick={() => setSelectedView('chart')}
+                    className={`px-4 py-2 rounded-lg font-medium transition-colors ${selectedView === 'chart'
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                  >
+                    Chart View
+                  </button>
+                  <button
+                    onClick={() => setSelectedView('table')}
+                    className={`px-4 py-2 rounded-lg font-medium transition-colors ${selectedView === 'table'
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                  >
+                    Table View
+                  </button>
+                  <button
+                    onClick={() => setSelectedView('visitors')}
+                    className={`px-4 py-2 rounded-lg font-medium transition-colors ${selectedView === 'visitors'
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                  >
+                    Visitor View
+                  </button>
                 </div>
+                <ExportMenu query={{ ...filters, sort }} />
               </div>
 
-              {/* Pagination */}
-              {totalPages > 1 && (
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-2">
-                    <button
-                      onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                      disabled={currentPage === 1}
-                      className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      Previous
-                    </button>
-                    <span className="text-sm text-gray-700">
-                      Page {currentPage} of {totalPages}
-                    </span>
-                    <button
-                      onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                      disabled={currentPage === totalPages}
-                      className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      Next
-                    </button>
+              {selectedView === 'chart' ? (
+                <div className="space-y-6">
+                  <TrafficTimeSeries logs={logs} filteredLogs={filteredLogs} filters={filters} compareRange={compareRange} />
+
+                  <WorldMap logs={mapLogs} selectedCountry={selectedCountry} onSelectCountry={selectCountry} />
+
+                  <OrgPanel logs={filteredLogs} />
+
+                  <RetentionCohorts logs={allHitLogs} firstSeen={firstSeen} timeZone={timeZone} />
+
+                  <div className="bg-gray-50 rounded-lg p-6">
+                    <h3 className="text-lg font-semibold mb-4 text-gray-800">Top Countries by Hits</h3>
+                    <div className="h-80">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={chartData}>
+                          <XAxis dataKey="country" />
+                          <YAxis />
+                          <Tooltip
+                            contentStyle={{
+                              backgroundColor: 'white',
+                              border: '1px solid #e5e7eb',
+                              borderRadius: '8px',
+                              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                              padding: '8px 12px'
+                            }}
+                            formatter={(value, name) => [`${value} hits`, name]}
+                            labelFormatter={(label) => `${label}`}
+                          />
+                          <Bar dataKey="count" name="Hits" fill="#3B82F6" radius={[4, 4, 0, 0]} />
+                          {comparison && (
+                            <Bar dataKey="previousCount" name={`Hits, ${compareLabel}`} fill="#93C5FD" radius={[4, 4, 0, 0]} />
+                          )}
+                          {comparison && <Legend />}
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-50 rounded-lg p-6">
+                    <h3 className="text-lg font-semibold mb-4 text-gray-800">Country Distribution</h3>
+                    <div className="h-96">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <PieChart>
+                          <Pie
+                            data={chartData}
+                            cx="50%"
+                            cy="50%"
+                            labelLine={true}
+                            label={({ country, percent }) => {
+                              const percentage = ((percent || 0) * 100).toFixed(1);
+                              return parseFloat(percentage) > 2 ? `${country}\n${percentage}%` : '';
+                            }}
+                            outerRadius={120}
+                            innerRadius={40}
+                            fill="#8884d8"
+                            dataKey="count"
+                            paddingAngle={2}
+                          >
+                            {chartData.map((entry, index) => (
+                              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                            ))}
+                          </Pie>
+                          {comparison && (
+                            <Pie
+                              data={chartData}
+                              cx="50%"
+                              cy="50%"
+                              outerRadius={145}
+                              innerRadius={130}
+                              dataKey="previousCount"
+                              nameKey="country"
+                              paddingAngle={2}
+                            >
+                              {chartData.map((entry, index) => (
+                                <Cell key={`previous-${index}`} fill={COLORS[index % COLORS.length]} fillOpacity={0.4} />
+                              ))}
+                            </Pie>
+                          )}
+                          <Tooltip
+                            contentStyle={{
+                              backgroundColor: 'white',
+                              border: '1px solid #e5e7eb',
+                              borderRadius: '8px',
+                              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                              padding: '8px 12px'
+                            }}
+                            formatter={(value, name) => [`${value} hits`, name]}
+                            labelFormatter={(label) => `${label}`}
+                            cursor={{ fill: 'rgba(0, 0, 0, 0.1)' }}
+                          />
+                        </PieChart>
+                      </ResponsiveContainer>
+                    </div>
+                    {comparison && (
+                      <p className="mt-2 text-center text-xs text-gray-500">Outer ring: {compareLabel}</p>
+                    )}
+                    {/* Legend for small percentages */}
+                    <div className="mt-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
+                      {chartData.map((entry, index) => {
+                        const percentage = ((entry.count / filteredLogs.length) * 100).toFixed(1);
+                        if (parseFloat(percentage) <= 2) {
+                          return (
+                            <div key={entry.country} className="flex items-center space-x-2 text-sm">
+                              <div
+                                className="w-3 h-3 rounded-full"
+                                style={{ backgroundColor: COLORS[index % COLORS.length] }}
+                              />
+                              <span className="text-gray-700">{entry.country}</span>
+                              <span className="text-gray-500">({percentage}%)</span>
+                            </div>
+                          );
+                        }
+                        return null;
+                      })}
+                    </div>
                   </div>
+
+                  {comparison && (
+                    <PeriodChanges countries={comparison.countries} orgs={comparison.orgs} label={compareLabel} />
+                  )}
                 </div>
+              ) : selectedView === 'visitors' ? (
+                <VisitorTable logs={allHitLogs} timeZone={timeZone} onSelectVisitor={setSelectedVisitor} />
+              ) : (
+                <LogTable
+                  filters={filters}
+                  sort={sort}
+                  onSortChange={changeSort}
+                  page={currentPage}
+                  onPageChange={setCurrentPage}
+                  pageSize={pageSize}
+                  onPageSizeChange={changePageSize}
+                  refreshKey={tableRefresh}
+                  onSelectVisitor={setSelectedVisitor}
+                />
               )}
             </div>
-          )}
+          </div>
         </div>
       </div>
+
+      <VisitorDrawer logs={logs} visitor={selectedVisitor} timeZone={timeZone} onClose={closeVisitorDrawer} />
     </div>
   );
 }
 
+export default function Page() {
+  return (
+    <Suspense>
+      <Dashboard />
+    </Suspense>
+  );
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { LogEntry } from './types';
+import { LogFilters, filterLogs, sortLogs } from './logQuery';
+import { NO_COMPARISON, analyzeLogs, globalStatsFor } from './analytics';
+import { dayBounds } from './timezone';
+import { logsForRole } from './privacy';
+
+const HOUR = 60 * 60 * 1000;
+
+function log(timestamp: string, ip: string, country = 'US', org = 'AS7922 Comcast Cable Communications, LLC'): LogEntry {
+  return { timestamp, ip, country, region: '', city: '', org };
+}
+
+function filters(overrides: Partial<LogFilters> = {}): LogFilters {
+  return {
+    search: '', startDate: '', endDate: '', uniqueIPsOnly: false, excludeDatacenters: false, facets: [], timeZone: 'UTC',
+    ...overrides,
+  };
+}
+
+describe('analyzeLogs', () => {
+  it('returns empty results for no logs', () => {
+    const result = analyzeLogs([], filters());
+    expect(result.filteredLogs).toEqual([]);
+    expect(result.metrics).toEqual({ totalHits: 0, uniqueCountries: 0, uniqueIPs: 0 });
+    expect(result.topCountries).toEqual([]);
+    expect(result.comparison).toBeNull();
+  });
+
+  it('compares an empty range against an empty previous period', () => {
+    const result = analyzeLogs([], filters({ startDate: '2025-08-08', endDate: '2025-08-14' }), {
+      mode: 'previous',
+      custom: NO_COMPARISON.custom,
+    });
+    expect(result.comparison?.range).toEqual({ startDate: '2025-08-01', endDate: '2025-08-07' });
+    expect(result.comparison?.deltas.totalHits).toEqual({ change: 0, percent: null });
+    expect(result.comparison?.countries).toEqual({ gained: [], lost: [] });
+  });
+
+  it('computes metrics and deltas against the previous period', () => {
+    const logs = [
+      log('2025-08-02T10:00:00Z', '1.1.1.1', 'US'),
+      log('2025-08-03T10:00:00Z', '2.2.2.2', 'FR'),
+      log('2025-08-09T10:00:00Z', '1.1.1.1', 'US'),
+      log('2025-08-10T10:00:00Z', '3.3.3.3', 'DE'),
+      log('2025-08-11T10:00:00Z', '3.3.3.3', 'DE'),
+      log('2025-08-12T10:00:00Z', '4.4.4.4', 'DE'),
+    ];
+    const result = analyzeLogs(logs, filters({ startDate: '2025-08-08', endDate: '2025-08-14' }), {
+      mode: 'previous',
+      custom: NO_COMPARISON.custom,
+    });
+
+    expect(result.metrics).toEqual({ totalHits: 4, uniqueCountries: 2, uniqueIPs: 3 });
+    expect(result.topCountries).toEqual([
+      { country: 'DE', count: 3, previousCount: 0 },
+      { country: 'US', count: 1, previousCount: 1 },
+    ]);
+    expect(result.comparison?.deltas.totalHits).toEqual({ change: 2, percent: 100 });
+    expect(result.comparison?.countries).toEqual({
+      gained: [{ value: 'DE', hits: 3 }],
+      lost: [{ value: 'FR', hits: 1 }],
+    });
+  });
+
+  it('counts each visitor once with the unique toggle', () => {
+    const logs = [log('2025-08-01T10:00:00Z', '1.1.1.1'), log('2025-08-01T11:00:00Z', '1.1.1.1')];
+    expect(analyzeLogs(logs, filters({ uniqueIPsOnly: true })).metrics.totalHits).toBe(1);
+  });
+});
+
+describe('globalStatsFor', () => {
+  it('rebuilds stats without datacenter traffic', () => {
+    const logs = [
+      log('2025-08-01T10:00:00Z', '1.1.1.1'),
+      log('2025-08-01T11:00:00Z', '5.5.5.5', 'US', 'AS16509 Amazon.com, Inc.'),
+    ];
+    const stats = globalStatsFor(logs, null, { excludeDatacenters: true });
+    expect(stats?.total_hits).toBe(1);
+    expect(stats?.unique_ips).toEqual(['1.1.1.1']);
+    expect(globalStatsFor(logs, null, { excludeDatacenters: false })).toBeNull();
+  });
+
+  it('counts masked visitors that share a /24 apart', () => {
+    const ips = ['10.0.0.1', '10.0.0.2', '10.0.0.3', '10.0.0.4', '10.0.0.4'];
+    const logs = logsForRole(ips.map((ip) => log('2025-08-01T10:00:00Z', ip)), 'viewer');
+    expect(new Set(logs.map((entry) => entry.ip))).toEqual(new Set(['10.0.0.0/24']));
+
+    const stats = globalStatsFor(logs, null, { excludeDatacenters: true });
+    expect(stats?.total_hits).toBe(5);
+    expect(stats?.unique_ips).toHaveLength(4);
+    expect(stats?.daily_stats['2025-08-01'].new_unique_ips).toHaveLength(4);
+  });
+});
+
+describe('sortLogs', () => {
+  it('breaks ties on the sort key with the remaining fields', () => {
+    const a = log('2025-08-01T10:00:00Z', '9.9.9.9', 'US');
+    const b = log('2025-08-01T10:00:00Z', '1.1.1.1', 'US');
+    const c = log('2025-08-01T10:00:00Z', '1.1.1.1', 'DE');
+
+    expect(sortLogs([a, b, c], [{ field: 'timestamp', direction: 'desc' }])).toEqual([c, b, a]);
+    expect(sortLogs([c, b, a], [{ field: 'timestamp', direction: 'desc' }])).toEqual([c, b, a]);
+  });
+
+  it('keeps identical entries and honours every sort key in turn', () => {
+    const a = log('2025-08-01T10:00:00Z', '1.1.1.1', 'US');
+    const b = log('2025-08-02T10:00:00Z', '1.1.1.1', 'FR');
+    const sorted = sortLogs([a, b, { ...a }], [{ field: 'ip', direction: 'asc' }, { field: 'timestamp', direction: 'desc' }]);
+    expect(sorted).toEqual([b, a, a]);
+  });
+
+  it('orders timestamps by instant rather than by string', () => {
+    const utc = log('2025-08-01T10:00:00Z', '1.1.1.1');
+    const offset = log('2025-08-01T11:30:00+02:00', '1.1.1.1');
+    expect(sortLogs([utc, offset], [{ field: 'timestamp', direction: 'asc' }])).toEqual([offset, utc]);
+  });
+});
+
+describe('dayBounds', () => {
+  it('spans 24 hours on an ordinary day', () => {
+    const { start, end } = dayBounds('2025-08-01', 'UTC');
+    expect(new Date(start).toISOString()).toBe('2025-08-01T00:00:00.000Z');
+    expect(new Date(end).toISOString()).toBe('2025-08-01T23:59:59.999Z');
+  });
+
+  it('is 23 hours long when DST starts', () => {
+    const { start, end } = dayBounds('2025-03-09', 'America/New_York');
+    expect(new Date(start).toISOString()).toBe('2025-03-09T05:00:00.000Z');
+    expect(end + 1 - start).toBe(23 * HOUR);
+  });
+
+  it('is 25 hours long when DST ends', () => {
+    const { start, end } = dayBounds('2025-10-26', 'Europe/Berlin');
+    expect(new Date(start).toISOString()).toBe('2025-10-25T22:00:00.000Z');
+    expect(end + 1 - start).toBe(25 * HOUR);
+  });
+});
+
+describe('filterLogs date range', () => {
+  const lateEvening = log('2025-08-01T03:30:00Z', '1.1.1.1');
+  const earlyMorning = log('2025-07-31T09:30:00Z', '2.2.2.2');
+
+  it('uses whole days in the selected zone', () => {
+    const range = { startDate: '2025-07-31', endDate: '2025-07-31' };
+    expect(filterLogs([lateEvening, earlyMorning], filters({ ...range, timeZone: 'UTC' }))).toEqual([earlyMorning]);
+    expect(filterLogs([lateEvening, earlyMorning], filters({ ...range, timeZone: 'America/New_York' })))
+      .toEqual([lateEvening, earlyMorning]);
+    expect(filterLogs([lateEvening, earlyMorning], filters({ ...range, timeZone: 'Pacific/Kiritimati' }))).toEqual([earlyMorning]);
+  });
+
+  it('includes the first and last millisecond of the range', () => {
+    const first = log('2025-03-09T05:00:00.000Z', '1.1.1.1');
+    const last = log('2025-03-10T03:59:59.999Z', '2.2.2.2');
+    const before = log('2025-03-09T04:59:59.999Z', '3.3.3.3');
+    const after = log('2025-03-10T04:00:00.000Z', '4.4.4.4');
+    const range = { startDate: '2025-03-09', endDate: '2025-03-09', timeZone: 'America/New_York' };
+    expect(filterLogs([before, first, last, after], filters(range))).toEqual([first, last]);
+  });
+});
@@ -0,0 +1,123 @@
+import { LogEntry, StatsData } from './types';
+import { LogFilters, filterLogs } from './logQuery';
+import { setFieldTerm } from './searchQuery';
+import { isDatacenterTraffic } from './orgs';
+import { computeStats } from './stats';
+import { Delta } from './growth';
+import { Anomaly, AnomalyConfig, DEFAULT_ANOMALY_CONFIG, detectAnomalies } from './anomalies';
+import { DateRange, logsDateRange } from './timeSeries';
+import {
+  CompareMode, CountryComparison, GainedLost, PeriodMetrics,
+  comparisonRange, periodMetrics, compareMetrics, compareCountries, gainedAndLost,
+} from './comparison';
+
+// The dashboard's aggregation as pure functions over LogEntry[], so the page, API routes and
+// reports compute the same figures. The page memoizes each step; analyzeLogs runs them all.
+
+export interface CompareOptions {
+  mode: CompareMode;
+  // Used when mode is 'custom'
+  custom: DateRange;
+}
+
+export const NO_COMPARISON: CompareOptions = { mode: 'off', custom: { startDate: '', endDate: '' } };
+
+export interface PeriodComparison {
+  range: DateRange;
+  logs: LogEntry[];
+  deltas: Record<keyof PeriodMetrics, Delta>;
+  countries: GainedLost;
+  orgs: GainedLost;
+}
+
+export interface LogAnalytics {
+  filteredLogs: LogEntry[];
+  metrics: PeriodMetrics;
+  // Top countries, with their hits in the comparison period when there is one
+  topCountries: CountryComparison[];
+  comparison: PeriodComparison | null;
+}
+
+// Facet counts come from everything but the facets, which the sidebar applies per field
+export function facetBaseLogs(logs: LogEntry[], filters: LogFilters): LogEntry[] {
+  return filterLogs(logs, { ...filters, facets: [] });
+}
+
+// The map ignores the country filter so the rest of the world stays visible
+export function mapBaseLogs(logs: LogEntry[], filters: LogFilters): LogEntry[] {
+  return filterLogs(logs, { ...filters, search: setFieldTerm(filters.search, 'country', null) });
+}
+
+// Bursts and visitor sessions need every hit, so they ignore the unique-visitor toggle
+export function allHitLogsFor(logs: LogEntry[], filters: LogFilters, filteredLogs?: LogEntry[]): LogEntry[] {
+  if (filters.uniqueIPsOnly) return filterLogs(logs, { ...filters, uniqueIPsOnly: false });
+  return filteredLogs ?? filterLogs(logs, filters);
+}
+
+// Whether the filters select a subset of the traffic, as opposed to only deduplicating it
+export function narrowsTraffic(filters: LogFilters): boolean {
+  return !!(filters.search || filters.startDate || filters.endDate || filters.excludeDatacenters || filters.facets.length);
+}
+
+// All-time stats behind the global cards and growth charts. The data source's stats count every hit,
+// so with datacenter traffic excluded they are rebuilt from the logs without it, which only go back
+// as far as the logs do.
+export function globalStatsFor(logs: LogEntry[], stats: StatsData | null, filters: Pick<LogFilters, 'excludeDatacenters'>): StatsData | null {
+  if (!filters.excludeDatacenters) return stats;
+  return computeStats(logs.filter((log) => !isDatacenterTraffic(log)));
+}
+
+// Daily stats only describe the unfiltered traffic, so drops fall back to the logs once anything is filtered
+export function filteredAnomalies(
+  allHits: LogEntry[],
+  stats: StatsData | null,
+  filters: LogFilters,
+  config: AnomalyConfig = DEFAULT_ANOMALY_CONFIG
+): Anomaly[] {
+  return detectAnomalies(allHits, narrowsTraffic(filters) ? null : stats, config, filters.timeZone);
+}
+
+// The period being looked at: the date filter when complete, otherwise the span of the filtered logs
+export function currentRange(filters: LogFilters, filteredLogs: LogEntry[]): DateRange | null {
+  if (filters.startDate && filters.endDate) return { startDate: filters.startDate, endDate: filters.endDate };
+  return logsDateRange(filteredLogs, filters.timeZone);
+}
+
+export function compareRangeFor(filters: LogFilters, filteredLogs: LogEntry[], compare: CompareOptions): DateRange | null {
+  const range = currentRange(filters, filteredLogs);
+  return range ? comparisonRange(range, compare.mode, compare.custom) : null;
+}
+
+// The same filters over the comparison period
+export function compareLogsFor(logs: LogEntry[], filters: LogFilters, range: DateRange | null): LogEntry[] | null {
+  return range ? filterLogs(logs, { ...filters, ...range }) : null;
+}
+
+export function comparePeriods(
+  current: LogEntry[],
+  metrics: PeriodMetrics,
+  previous: LogEntry[],
+  range: DateRange
+): PeriodComparison {
+  return {
+    range,
+    logs: previous,
+    deltas: compareMetrics(metrics, periodMetrics(previous)),
+    countries: gainedAndLost(current, previous, (log) => log.country),
+    orgs: gainedAndLost(current, previous, (log) => log.org),
+  };
+}
+
+export function analyzeLogs(logs: LogEntry[], filters: LogFilters, compare: CompareOptions = NO_COMPARISON): LogAnalytics {
+  const filteredLogs = filterLogs(logs, filters);
+  const metrics = periodMetrics(filteredLogs);
+  const range = compareRangeFor(filters, filteredLogs, compare);
+  const previous = compareLogsFor(logs, filters, range);
+
+  return {
+    filteredLogs,
+    metrics,
+    topCountries: compareCountries(filteredLogs, previous ?? []),
+    comparison: range && previous ? comparePeriods(filteredLogs, metrics, previous, range) : null,
+  };
+}
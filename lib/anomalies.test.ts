@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Anomaly, AnomalyConfig, DEFAULT_ANOMALY_CONFIG, anomaliesSince, parseAnomalyConfig } from './anomalies';
+
+function parse(values: Partial<Record<keyof AnomalyConfig, string>>): AnomalyConfig {
+  return parseAnomalyConfig((key) => values[key]);
+}
+
+function anomaly(kind: Anomaly['kind'], start: string, end: string): Anomaly {
+  return { id: `${kind}:${start}`, kind, severity: 'warning', subject: 'US', message: '', start, end, value: 1, baseline: 0 };
+}
+
+describe('parseAnomalyConfig', () => {
+  it('keeps the defaults for missing values', () => {
+    expect(parse({})).toEqual(DEFAULT_ANOMALY_CONFIG);
+  });
+
+  it('accepts whole numbers, and fractions for the z-score and drop ratio', () => {
+    expect(parse({ rollingWindowDays: '14', minCountryHits: '5', zScoreThreshold: '2.5', dropRatio: '0.25' })).toMatchObject({
+      rollingWindowDays: 14, minCountryHits: 5, zScoreThreshold: 2.5, dropRatio: 0.25,
+    });
+  });
+
+  it.each([
+    ['rollingWindowDays', '2.5'],
+    ['minCountryHits', '0.5'],
+    ['ipBurstThreshold', '30.1'],
+    ['orgBurstThreshold', '1e-3'],
+    ['burstWindowMinutes', '7.5'],
+  ] as const)('rejects a fractional %s', (key, value) => {
+    expect(() => parse({ [key]: value })).toThrow(`Invalid ${key}: ${value} is not a whole number`);
+  });
+
+  it.each(['0', '-1', 'abc', 'Infinity'])('rejects %s', (value) => {
+    expect(() => parse({ dropRatio: value })).toThrow(`Invalid dropRatio: ${value}`);
+  });
+});
+
+describe('anomaliesSince', () => {
+  const burst = anomaly('ip_burst', '2025-08-01T10:00:00.000Z', '2025-08-01T10:05:00.000Z');
+  const spike = anomaly('country_spike', '2025-08-01', '2025-08-01');
+  const drop = anomaly('daily_drop', '2025-08-01', '2025-08-01');
+
+  it('keeps spikes and drops on the day `since` falls in', () => {
+    expect(anomaliesSince([burst, spike, drop], new Date('2025-08-01T12:00:00Z'), 'UTC')).toEqual([spike, drop]);
+    expect(anomaliesSince([burst, spike, drop], new Date('2025-08-02T00:00:00Z'), 'UTC')).toEqual([]);
+  });
+
+  it('ends days in the selected zone', () => {
+    const since = new Date('2025-08-02T02:00:00Z');
+    expect(anomaliesSince([spike], since, 'UTC')).toEqual([]);
+    expect(anomaliesSince([spike], since, 'America/New_York')).toEqual([spike]);
+  });
+
+  it('compares bursts by their end time', () => {
+    expect(anomaliesSince([burst], new Date('2025-08-01T10:05:00Z'))).toEqual([burst]);
+    expect(anomaliesSince([burst], new Date('2025-08-01T10:05:01Z'))).toEqual([]);
+  });
+});
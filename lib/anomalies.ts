@@ -0,0 +1,274 @@
+import { parseISO, format, subDays } from 'date-fns';
+import { LogEntry, StatsData, visitorKey } from './types';
+import { parseOrg } from './orgs';
+import { DEFAULT_TIME_ZONE, inZone, dayInZone, dayBounds } from './timezone';
+
+export type AnomalyKind = 'ip_burst' | 'org_burst' | 'country_spike' | 'daily_drop';
+export type AnomalySeverity = 'warning' | 'critical';
+
+export interface Anomaly {
+  id: string;
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  subject: string;
+  message: string;
+  start: string;
+  end: string;
+  value: number;
+  baseline: number;
+}
+
+export interface AnomalyConfig {
+  // Hits from one visitor (or org) within burstWindowMinutes that count as a burst
+  burstWindowMinutes: number;
+  ipBurstThreshold: number;
+  orgBurstThreshold: number;
+  // A country-day is a spike when its z-score against the previous days reaches this
+  zScoreThreshold: number;
+  minCountryHits: number;
+  // A day is a drop when its hits fall below dropRatio x the rolling median of the previous days
+  rollingWindowDays: number;
+  dropRatio: number;
+}
+
+export const DEFAULT_ANOMALY_CONFIG: AnomalyConfig = {
+  burstWindowMinutes: 10,
+  ipBurstThreshold: 30,
+  orgBurstThreshold: 200,
+  zScoreThreshold: 3,
+  minCountryHits: 10,
+  rollingWindowDays: 7,
+  dropRatio: 0.5,
+};
+
+const CONFIG_ENV: Record<keyof AnomalyConfig, string> = {
+  burstWindowMinutes: 'ANOMALY_BURST_WINDOW_MINUTES',
+  ipBurstThreshold: 'ANOMALY_IP_BURST_THRESHOLD',
+  orgBurstThreshold: 'ANOMALY_ORG_BURST_THRESHOLD',
+  zScoreThreshold: 'ANOMALY_ZSCORE_THRESHOLD',
+  minCountryHits: 'ANOMALY_MIN_COUNTRY_HITS',
+  rollingWindowDays: 'ANOMALY_ROLLING_WINDOW_DAYS',
+  dropRatio: 'ANOMALY_DROP_RATIO',
+};
+
+// Counts of hits, minutes and days; the rest may be fractional
+const REAL_KEYS: (keyof AnomalyConfig)[] = ['zScoreThreshold', 'dropRatio'];
+
+// Override defaults from a source of strings, e.g. process.env (ANOMALY_*) or query parameters (config keys)
+export function parseAnomalyConfig(get: (key: keyof AnomalyConfig, envName: string) => string | null | undefined): AnomalyConfig {
+  const config = { ...DEFAULT_ANOMALY_CONFIG };
+  for (const key of Object.keys(CONFIG_ENV) as (keyof AnomalyConfig)[]) {
+    const raw = get(key, CONFIG_ENV[key]);
+    if (raw === null || raw === undefined || raw === '') continue;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid ${key}: ${raw}`);
+    }
+    if (!REAL_KEYS.includes(key) && !Number.isInteger(value)) {
+      throw new Error(`Invalid ${key}: ${raw} is not a whole number`);
+    }
+    config[key] = value;
+  }
+  return config;
+}
+
+// Days of history a country needs before its traffic can be called a spike
+const MIN_SPIKE_HISTORY = 3;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function meanAndStd(values: number[]) {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+// Largest number of timestamps falling inside any window of the given length
+function peakWindow(times: number[], windowMs: number) {
+  const sorted = [...times].sort((a, b) => a - b);
+  let best = { count: 0, start: 0, end: 0 };
+  for (let lo = 0, hi = 0; hi < sorted.length; hi++) {
+    while (sorted[hi] - sorted[lo] > windowMs) lo++;
+    if (hi - lo + 1 > best.count) {
+      best = { count: hi - lo + 1, start: sorted[lo], end: sorted[hi] };
+    }
+  }
+  return best;
+}
+
+function detectBursts(
+  logs: LogEntry[],
+  kind: 'ip_burst' | 'org_burst',
+  threshold: number,
+  windowMinutes: number
+): Anomaly[] {
+  const groups = new Map<string, { label: string; times: number[] }>();
+  for (const log of logs) {
+    const key = kind === 'ip_burst' ? visitorKey(log) : log.org;
+    let group = groups.get(key);
+    if (!group) {
+      group = { label: kind === 'ip_burst' ? log.ip : parseOrg(log.org).name || 'Unknown', times: [] };
+      groups.set(key, group);
+    }
+    group.times.push(parseISO(log.timestamp).getTime());
+  }
+
+  const anomalies: Anomaly[] = [];
+  for (const [key, { label, times }] of groups) {
+    if (times.length < threshold) continue;
+
+    const peak = peakWindow(times, windowMinutes * 60 * 1000);
+    if (peak.count < threshold) continue;
+
+    const start = new Date(peak.start).toISOString();
+    anomalies.push({
+      id: `${kind}:${key}:${start}`,
+      kind,
+      severity: peak.count >= threshold * 2 ? 'critical' : 'warning',
+      subject: label,
+      message: `${peak.count} hits within ${windowMinutes} minutes from ${kind === 'ip_burst' ? 'IP' : 'organization'} ${label}`,
+      start,
+      end: new Date(peak.end).toISOString(),
+      value: peak.count,
+      baseline: threshold,
+    });
+  }
+  return anomalies;
+}
+
+// Every calendar day between the first and last key, so quiet days count as zero
+function daySpan(days: string[]): string[] {
+  if (days.length === 0) return [];
+  const utc = { in: inZone('UTC') };
+  const sorted = [...days].sort();
+  const span: string[] = [];
+  for (let day = parseISO(sorted[sorted.length - 1], utc); format(day, 'yyyy-MM-dd', utc) >= sorted[0]; day = subDays(day, 1, utc)) {
+    span.unshift(format(day, 'yyyy-MM-dd', utc));
+  }
+  return span;
+}
+
+function detectCountrySpikes(logs: LogEntry[], config: AnomalyConfig, today: string, timeZone: string): Anomaly[] {
+  const counts = new Map<string, Map<string, number>>();
+  for (const log of logs) {
+    const day = dayInZone(log.timestamp, timeZone);
+    let byDay = counts.get(log.country);
+    if (!byDay) {
+      byDay = new Map();
+      counts.set(log.country, byDay);
+    }
+    byDay.set(day, (byDay.get(day) ?? 0) + 1);
+  }
+
+  const days = daySpan(logs.map((log) => dayInZone(log.timestamp, timeZone)));
+  const anomalies: Anomaly[] = [];
+
+  for (const [country, byDay] of counts) {
+    const series = days.map((day) => byDay.get(day) ?? 0);
+    for (let i = MIN_SPIKE_HISTORY; i < series.length; i++) {
+      const value = series[i];
+      if (value < config.minCountryHits) continue;
+
+      const history = series.slice(Math.max(0, i - config.rollingWindowDays), i);
+      const { mean, std } = meanAndStd(history);
+      // A flat history has no spread; treat any jump to twice the mean as a spike
+      const zScore = std > 0 ? (value - mean) / std : value >= mean * 2 ? Infinity : 0;
+      if (zScore < config.zScoreThreshold) continue;
+
+      anomalies.push({
+        id: `country_spike:${country}:${days[i]}`,
+        kind: 'country_spike',
+        severity: zScore >= config.zScoreThreshold * 2 ? 'critical' : 'warning',
+        subject: country,
+        message: `${value} hits from ${country} on ${days[i]}${days[i] === today ? ' (so far)' : ''}, against an average of ${mean.toFixed(1)}`,
+        start: days[i],
+        end: days[i],
+        value,
+        baseline: Math.round(mean * 10) / 10,
+      });
+    }
+  }
+  return anomalies;
+}
+
+function detectDailyDrops(dailyHits: Map<string, number>, config: AnomalyConfig, today: string): Anomaly[] {
+  // The current day is still in progress, so it would always look like a drop
+  const days = daySpan([...dailyHits.keys()]).filter((day) => day < today);
+  const series = days.map((day) => dailyHits.get(day) ?? 0);
+  const anomalies: Anomaly[] = [];
+
+  for (let i = config.rollingWindowDays; i < series.length; i++) {
+    const baseline = median(series.slice(i - config.rollingWindowDays, i));
+    const value = series[i];
+    if (baseline <= 0 || value >= baseline * config.dropRatio) continue;
+
+    anomalies.push({
+      id: `daily_drop:${days[i]}`,
+      kind: 'daily_drop',
+      severity: value < baseline * config.dropRatio / 2 ? 'critical' : 'warning',
+      subject: days[i],
+      message: `${value} hits on ${days[i]}, down from a ${config.rollingWindowDays}-day median of ${baseline}`,
+      start: days[i],
+      end: days[i],
+      value,
+      baseline,
+    });
+  }
+  return anomalies;
+}
+
+// Earliest time logs are needed from to find every anomaly ending at or after `since`: spikes and drops
+// are measured against the days before them, and a day more covers day boundaries in other zones
+export function historyStart(since: Date, config: AnomalyConfig): Date {
+  const days = Math.max(config.rollingWindowDays, MIN_SPIKE_HISTORY, Math.ceil(config.burstWindowMinutes / (24 * 60)));
+  return subDays(since, days + 1);
+}
+
+// Anomalies ending at or after `since`. Spikes and drops cover whole days in the zone they were
+// detected in, so they end at the last moment of their day there.
+export function anomaliesSince(anomalies: Anomaly[], since: Date, timeZone: string = DEFAULT_TIME_ZONE): Anomaly[] {
+  return anomalies.filter((anomaly) => {
+    const end = anomaly.kind === 'country_spike' || anomaly.kind === 'daily_drop'
+      ? dayBounds(anomaly.end, timeZone).end
+      : parseISO(anomaly.end).getTime();
+    return end >= since.getTime();
+  });
+}
+
+// Run every detector with days in the given zone. Daily drops use StatsData.daily_stats when
+// available, but those days are UTC, so other zones count the logs instead.
+export function detectAnomalies(
+  logs: LogEntry[],
+  stats: StatsData | null,
+  config: AnomalyConfig = DEFAULT_ANOMALY_CONFIG,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  now: Date = new Date()
+): Anomaly[] {
+  const today = dayInZone(now, timeZone);
+
+  const dailyHits = new Map<string, number>();
+  if (timeZone === 'UTC' && stats?.daily_stats && Object.keys(stats.daily_stats).length > 0) {
+    for (const [day, daily] of Object.entries(stats.daily_stats)) {
+      dailyHits.set(day, daily.new_hits);
+    }
+  } else {
+    for (const log of logs) {
+      const day = dayInZone(log.timestamp, timeZone);
+      dailyHits.set(day, (dailyHits.get(day) ?? 0) + 1);
+    }
+  }
+
+  const severityRank: Record<AnomalySeverity, number> = { critical: 0, warning: 1 };
+  return [
+    ...detectBursts(logs, 'ip_burst', config.ipBurstThreshold, config.burstWindowMinutes),
+    ...detectBursts(logs, 'org_burst', config.orgBurstThreshold, config.burstWindowMinutes),
+    ...detectCountrySpikes(logs, config, today, timeZone),
+    ...detectDailyDrops(dailyHits, config, today),
+  ].sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || b.start.localeCompare(a.start));
+}
@@ -0,0 +1,4 @@
+export { authOptions, getRole, getCurrentUser, isOidcEnabled } from './options';
+export type { CurrentUser } from './options';
+export { hashPassword, ROLES } from './users';
+export type { Role, LocalUser } from './users';
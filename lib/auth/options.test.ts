@@ -0,0 +1,142 @@
+import { ChildProcess, spawn } from 'child_process';
+import { createHash, randomBytes } from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { NextAuthOptions, Profile } from 'next-auth';
+import type { OAuthConfig } from 'next-auth/providers/oauth';
+import { hashPassword } from './users';
+
+const MOCK_IDP_PORT = 9471;
+const ISSUER = `http://localhost:${MOCK_IDP_PORT}`;
+const REDIRECT_URI = 'http://localhost:3000/api/auth/callback/oidc';
+const MOCK_IDP_SCRIPT = fileURLToPath(new URL('../../scripts/mock-oidc-provider.mjs', import.meta.url));
+
+let idp: ChildProcess;
+let authOptions: NextAuthOptions;
+
+// Providers are built when the module loads, so the environment is set up before importing it
+beforeAll(async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'auth-test-'));
+  const usersFile = path.join(dir, 'users.json');
+  writeFileSync(usersFile, JSON.stringify([
+    { username: 'alice', role: 'admin', passwordHash: hashPassword('alice-pw') },
+    { username: 'bob', name: 'Bob', role: 'viewer', passwordHash: hashPassword('bob-pw') },
+  ]));
+
+  vi.stubEnv('AUTH_USERS_FILE', usersFile);
+  vi.stubEnv('OIDC_ISSUER', ISSUER);
+  vi.stubEnv('OIDC_CLIENT_ID', 'dashboard');
+  vi.stubEnv('OIDC_CLIENT_SECRET', 'secret');
+  vi.stubEnv('OIDC_ADMIN_GROUP', 'admin');
+  vi.resetModules();
+  ({ authOptions } = await import('./options'));
+
+  idp = spawn(process.execPath, [MOCK_IDP_SCRIPT], {
+    env: { ...process.env, MOCK_OIDC_PORT: String(MOCK_IDP_PORT) },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await new Promise<void>((resolve, reject) => {
+    idp.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve();
+    });
+    idp.on('exit', (code) => reject(new Error(`Mock identity provider exited with ${code}`)));
+  });
+});
+
+afterAll(() => {
+  idp?.kill();
+  vi.unstubAllEnvs();
+});
+
+function credentialsAuthorize(username: string, password: string) {
+  const provider = authOptions.providers.find((candidate) => candidate.id === 'credentials')!;
+  const { authorize } = (provider as unknown as { options: { authorize: (credentials: Record<string, string>) => unknown } }).options;
+  return authorize({ username, password });
+}
+
+function oidcProvider(): OAuthConfig<Profile & Record<string, unknown>> {
+  return authOptions.providers.find((candidate) => candidate.id === 'oidc') as OAuthConfig<Profile & Record<string, unknown>>;
+}
+
+// Runs the authorization code flow with PKCE against the mock provider and returns the ID token claims
+async function signInAtIdp(username: string): Promise<Profile & Record<string, unknown>> {
+  const discovery = await (await fetch(oidcProvider().wellKnown!)).json();
+  const verifier = randomBytes(32).toString('base64url');
+
+  const authorizeUrl = new URL(discovery.authorization_endpoint);
+  authorizeUrl.search = new URLSearchParams({
+    client_id: 'dashboard',
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    login_hint: username,
+    state: 'state-1',
+    code_challenge: createHash('sha256').update(verifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+  const redirect = await fetch(authorizeUrl, { redirect: 'manual' });
+  const callback = new URL(redirect.headers.get('location')!);
+  expect(callback.searchParams.get('state')).toBe('state-1');
+
+  const response = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: callback.searchParams.get('code')!,
+      redirect_uri: REDIRECT_URI,
+      code_verifier: verifier,
+      client_id: 'dashboard',
+      client_secret: 'secret',
+    }),
+  });
+  expect(response.status).toBe(200);
+  const { id_token: idToken } = await response.json();
+  return JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString());
+}
+
+describe('credentials provider', () => {
+  it('signs in local users with their role', async () => {
+    await expect(credentialsAuthorize('alice', 'alice-pw')).resolves.toEqual({ id: 'alice', name: 'alice', role: 'admin' });
+    await expect(credentialsAuthorize('bob', 'bob-pw')).resolves.toEqual({ id: 'bob', name: 'Bob', role: 'viewer' });
+  });
+
+  it('rejects unknown users and wrong passwords', async () => {
+    await expect(credentialsAuthorize('alice', 'bob-pw')).resolves.toBeNull();
+    await expect(credentialsAuthorize('mallory', 'alice-pw')).resolves.toBeNull();
+    await expect(credentialsAuthorize('alice', '')).resolves.toBeNull();
+  });
+});
+
+describe('OIDC provider', () => {
+  it('discovers the mock provider from OIDC_ISSUER', async () => {
+    expect(oidcProvider().wellKnown).toBe(`${ISSUER}/.well-known/openid-configuration`);
+    const discovery = await (await fetch(oidcProvider().wellKnown!)).json();
+    expect(discovery.issuer).toBe(ISSUER);
+  });
+
+  it('maps members of OIDC_ADMIN_GROUP to admins', async () => {
+    const claims = await signInAtIdp('admin');
+    expect(await oidcProvider().profile(claims, {})).toMatchObject({ id: 'mock-admin', name: 'Mock Admin', role: 'admin' });
+  });
+
+  it('maps everyone else to viewers', async () => {
+    const claims = await signInAtIdp('viewer');
+    expect(await oidcProvider().profile(claims, {})).toMatchObject({ id: 'mock-viewer', role: 'viewer' });
+    expect(await oidcProvider().profile({ sub: 'x', roles: ['admin'] }, {})).toMatchObject({ role: 'admin' });
+    expect(await oidcProvider().profile({ sub: 'y', groups: 'admin' }, {})).toMatchObject({ role: 'viewer' });
+  });
+});
+
+describe('session callbacks', () => {
+  it('carry the role from sign-in into the session', async () => {
+    const { jwt, session } = authOptions.callbacks!;
+    const token = await jwt!({ token: { sub: 'alice' }, user: { id: 'alice', role: 'admin' } } as Parameters<NonNullable<typeof jwt>>[0]);
+    expect(token.role).toBe('admin');
+
+    const result = await session!({ session: { user: {}, expires: '' }, token } as unknown as Parameters<NonNullable<typeof session>>[0]);
+    expect(result.user).toMatchObject({ id: 'alice', role: 'admin' });
+  });
+});
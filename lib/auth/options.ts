@@ -0,0 +1,94 @@
+import { getServerSession, NextAuthOptions } from 'next-auth';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import { Provider } from 'next-auth/providers/index';
+import { authenticateLocalUser, Role } from './users';
+
+export function isOidcEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return !!(env.OIDC_ISSUER && env.OIDC_CLIENT_ID && env.OIDC_CLIENT_SECRET);
+}
+
+// Users in OIDC_ADMIN_GROUP (from the `roles` or `groups` claim) are admins, everyone else is a viewer
+function oidcRole(profile: Record<string, unknown>): Role {
+  const adminGroup = process.env.OIDC_ADMIN_GROUP || 'admin';
+  const claims = [profile.roles, profile.groups].flatMap((claim) => (Array.isArray(claim) ? claim : []));
+  return claims.includes(adminGroup) ? 'admin' : 'viewer';
+}
+
+function buildProviders(): Provider[] {
+  const providers: Provider[] = [
+    CredentialsProvider({
+      name: 'Local account',
+      credentials: {
+        username: { label: 'Username', type: 'text' },
+        password: { label: 'Password', type: 'password' },
+      },
+      async authorize(credentials) {
+        if (!credentials?.username || !credentials.password) return null;
+
+        const user = authenticateLocalUser(credentials.username, credentials.password);
+        if (!user) return null;
+        return { id: user.username, name: user.name ?? user.username, role: user.role };
+      },
+    }),
+  ];
+
+  if (isOidcEnabled()) {
+    providers.push({
+      id: 'oidc',
+      name: process.env.OIDC_NAME || 'SSO',
+      type: 'oauth',
+      wellKnown: `${process.env.OIDC_ISSUER!.replace(/\/+$/, '')}/.well-known/openid-configuration`,
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET,
+      authorization: { params: { scope: 'openid profile email' } },
+      idToken: true,
+      checks: ['pkce', 'state'],
+      profile(profile) {
+        return {
+          id: profile.sub,
+          name: profile.name ?? profile.preferred_username ?? profile.email,
+          email: profile.email,
+          role: oidcRole(profile),
+        };
+      },
+    });
+  }
+
+  return providers;
+}
+
+export const authOptions: NextAuthOptions = {
+  providers: buildProviders(),
+  session: { strategy: 'jwt', maxAge: 8 * 60 * 60 },
+  pages: { signIn: '/login' },
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) token.role = user.role;
+      return token;
+    },
+    async session({ session, token }) {
+      session.user.id = token.sub ?? '';
+      session.user.role = token.role ?? 'viewer';
+      return session;
+    },
+  },
+};
+
+// Role of the signed-in user, or null when there is no session
+export async function getRole(): Promise<Role | null> {
+  const session = await getServerSession(authOptions);
+  return session?.user?.role ?? null;
+}
+
+export interface CurrentUser {
+  // Username for local accounts, `sub` for OIDC
+  id: string;
+  name: string;
+  role: Role;
+}
+
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) return null;
+  return { id: session.user.id, name: session.user.name ?? session.user.id, role: session.user.role };
+}
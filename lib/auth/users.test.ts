@@ -0,0 +1,44 @@
+import * as crypto from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('crypto', async (importOriginal) => {
+  const actual = await importOriginal<typeof crypto>();
+  return { ...actual, scryptSync: vi.fn(actual.scryptSync) };
+});
+
+const { authenticateLocalUser, hashPassword } = await import('./users');
+
+beforeAll(() => {
+  const usersFile = path.join(mkdtempSync(path.join(tmpdir(), 'users-test-')), 'users.json');
+  writeFileSync(usersFile, JSON.stringify([{ username: 'alice', role: 'admin', passwordHash: hashPassword('alice-pw') }]));
+  vi.stubEnv('AUTH_USERS_FILE', usersFile);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  // The first unknown username also hashes the throwaway password
+  authenticateLocalUser('nobody', 'warm-up');
+  vi.mocked(crypto.scryptSync).mockClear();
+});
+
+describe('authenticateLocalUser', () => {
+  it('signs in with the right password only', () => {
+    expect(authenticateLocalUser('alice', 'alice-pw')).toMatchObject({ username: 'alice', role: 'admin' });
+    expect(authenticateLocalUser('alice', 'wrong')).toBeNull();
+  });
+
+  it('runs scrypt for unknown usernames too, so they cannot be told apart by timing', () => {
+    expect(authenticateLocalUser('alice', 'wrong')).toBeNull();
+    expect(crypto.scryptSync).toHaveBeenCalledTimes(1);
+
+    expect(authenticateLocalUser('mallory', 'wrong')).toBeNull();
+    expect(crypto.scryptSync).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(crypto.scryptSync).mock.calls[1][2]).toBe(vi.mocked(crypto.scryptSync).mock.calls[0][2]);
+  });
+});
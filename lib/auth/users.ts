@@ -0,0 +1,58 @@
+import { readFileSync } from 'fs';
+import { scryptSync, randomBytes, timingSafeEqual } from 'crypto';
+
+export type Role = 'viewer' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'admin'];
+
+export interface LocalUser {
+  username: string;
+  name?: string;
+  role: Role;
+  passwordHash: string;
+}
+
+const KEY_LENGTH = 64;
+
+// Hashes are stored as scrypt$<salt hex>$<key hex>
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [scheme, salt, key] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+let users: LocalUser[] | null = null;
+
+// Local accounts come from the JSON file at AUTH_USERS_FILE
+export function loadUsers(): LocalUser[] {
+  if (users) return users;
+
+  const path = process.env.AUTH_USERS_FILE;
+  if (!path) return users = [];
+
+  const parsed: LocalUser[] = JSON.parse(readFileSync(path, 'utf8'));
+  for (const user of parsed) {
+    if (!user.username || !user.passwordHash || !ROLES.includes(user.role)) {
+      throw new Error(`Invalid user entry in ${path}: ${JSON.stringify(user.username)}`);
+    }
+  }
+  return users = parsed;
+}
+
+let dummyHash: string | null = null;
+
+// Unknown usernames are checked against a throwaway hash, so they take as long as wrong passwords
+export function authenticateLocalUser(username: string, password: string): LocalUser | null {
+  const user = loadUsers().find((candidate) => candidate.username === username);
+  const valid = verifyPassword(password, user?.passwordHash ?? (dummyHash ??= hashPassword(randomBytes(16).toString('hex'))));
+  return user && valid ? user : null;
+}
@@ -0,0 +1,65 @@
+import { SortField, SORT_FIELDS } from './types';
+
+// Every sortable field is also a table column
+export type ColumnKey = SortField;
+
+export const LOG_COLUMNS: { key: ColumnKey; label: string; width: number }[] = [
+  { key: 'ip', label: 'IP Address', width: 170 },
+  { key: 'timestamp', label: 'Timestamp', width: 190 },
+  { key: 'country', label: 'Country', width: 110 },
+  { key: 'region', label: 'Region', width: 160 },
+  { key: 'city', label: 'City', width: 160 },
+  { key: 'org', label: 'Organization', width: 260 },
+];
+
+export const MIN_COLUMN_WIDTH = 60;
+export const MAX_COLUMN_WIDTH = 800;
+
+export interface ColumnLayout {
+  // Every column, in display order
+  order: ColumnKey[];
+  hidden: ColumnKey[];
+  widths: Record<ColumnKey, number>;
+}
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  order: LOG_COLUMNS.map((column) => column.key),
+  hidden: ['region'],
+  widths: Object.fromEntries(LOG_COLUMNS.map((column) => [column.key, column.width])) as Record<ColumnKey, number>,
+};
+
+function isColumnKey(value: unknown): value is ColumnKey {
+  return SORT_FIELDS.includes(value as ColumnKey);
+}
+
+// Sanitize a stored layout: unknown columns are dropped, new ones appended, bad widths reset
+export function normalizeColumnLayout(value: unknown): ColumnLayout {
+  const stored = (value ?? {}) as Partial<Record<keyof ColumnLayout, unknown>>;
+  const defaults = DEFAULT_COLUMN_LAYOUT;
+
+  const order = Array.isArray(stored.order) ? [...new Set(stored.order.filter(isColumnKey))] : [];
+  for (const key of defaults.order) {
+    if (!order.includes(key)) order.push(key);
+  }
+
+  const hidden = Array.isArray(stored.hidden) ? stored.hidden.filter(isColumnKey) : defaults.hidden;
+
+  const widths = { ...defaults.widths };
+  const storedWidths = (stored.widths ?? {}) as Record<string, unknown>;
+  for (const key of order) {
+    const width = storedWidths[key];
+    if (typeof width === 'number' && width >= MIN_COLUMN_WIDTH && width <= MAX_COLUMN_WIDTH) {
+      widths[key] = width;
+    }
+  }
+
+  // Keep at least one column visible
+  return { order, hidden: hidden.length < order.length ? hidden : [], widths };
+}
+
+export function moveColumn(layout: ColumnLayout, key: ColumnKey, before: ColumnKey): ColumnLayout {
+  if (key === before) return layout;
+  const order = layout.order.filter((column) => column !== key);
+  order.splice(order.indexOf(before), 0, key);
+  return { ...layout, order };
+}
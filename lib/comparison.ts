@@ -0,0 +1,88 @@
+import { LogEntry, visitorKey } from './types';
+import { Delta, delta } from './growth';
+import { DateRange, previousPeriod } from './timeSeries';
+
+export type CompareMode = 'off' | 'previous' | 'custom';
+
+export const COMPARE_MODES: CompareMode[] = ['off', 'previous', 'custom'];
+
+export interface PeriodMetrics {
+  totalHits: number;
+  uniqueCountries: number;
+  uniqueIPs: number;
+}
+
+export interface CountryComparison {
+  country: string;
+  count: number;
+  previousCount: number;
+}
+
+export interface PeriodChange {
+  value: string;
+  // Hits in the period where the value appears
+  hits: number;
+}
+
+export interface GainedLost {
+  gained: PeriodChange[];
+  lost: PeriodChange[];
+}
+
+// The period to compare against: the equal-length one right before, or a custom range if complete
+export function comparisonRange(current: DateRange, mode: CompareMode, custom: DateRange): DateRange | null {
+  if (mode === 'previous') return previousPeriod(current);
+  if (mode === 'custom' && custom.startDate && custom.endDate && custom.startDate <= custom.endDate) return custom;
+  return null;
+}
+
+export function periodMetrics(logs: LogEntry[]): PeriodMetrics {
+  return {
+    totalHits: logs.length,
+    uniqueCountries: new Set(logs.map((log) => log.country)).size,
+    uniqueIPs: new Set(logs.map(visitorKey)).size,
+  };
+}
+
+export function compareMetrics(current: PeriodMetrics, previous: PeriodMetrics): Record<keyof PeriodMetrics, Delta> {
+  return {
+    totalHits: delta(current.totalHits, previous.totalHits),
+    uniqueCountries: delta(current.uniqueCountries, previous.uniqueCountries),
+    uniqueIPs: delta(current.uniqueIPs, previous.uniqueIPs),
+  };
+}
+
+function countBy(logs: LogEntry[], key: (log: LogEntry) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const log of logs) {
+    const value = key(log);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Hits per country in both periods, for the countries leading the current one
+export function compareCountries(current: LogEntry[], previous: LogEntry[], limit = 10): CountryComparison[] {
+  const currentCounts = countBy(current, (log) => log.country);
+  const previousCounts = countBy(previous, (log) => log.country);
+
+  return [...currentCounts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([country, count]) => ({ country, count, previousCount: previousCounts.get(country) ?? 0 }));
+}
+
+// Values seen in only one of the two periods, busiest first
+export function gainedAndLost(current: LogEntry[], previous: LogEntry[], key: (log: LogEntry) => string): GainedLost {
+  const currentCounts = countBy(current, key);
+  const previousCounts = countBy(previous, key);
+  const onlyIn = (counts: Map<string, number>, other: Map<string, number>) => [...counts.entries()]
+    .filter(([value]) => !other.has(value))
+    .map(([value, hits]) => ({ value, hits }))
+    .sort((a, b) => b.hits - a.hits || a.value.localeCompare(b.value));
+
+  return {
+    gained: onlyIn(currentCounts, previousCounts),
+    lost: onlyIn(previousCounts, currentCounts),
+  };
+}
@@ -0,0 +1,41 @@
+import { readFile } from 'fs/promises';
+import { LogEntry, LogRange, StatsData, logsInRange } from '../types';
+import { computeStats } from '../stats';
+import { parseLogEntries, parseStatsData } from '../schema';
+import { DataSource } from './types';
+
+// Accepts either a JSON array or newline-delimited JSON
+export function parseLogFile(contents: string, label = 'log file'): LogEntry[] {
+  const trimmed = contents.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[')) return parseLogEntries(JSON.parse(trimmed), label);
+
+  return parseLogEntries(trimmed
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => JSON.parse(line)), label);
+}
+
+// Reads logs from a local JSON/NDJSON file. Stats come from statsPath when given,
+// otherwise they are computed from the logs themselves.
+export function createFileDataSource(logsPath: string, statsPath?: string): DataSource {
+  async function getLogs(): Promise<LogEntry[]> {
+    return parseLogFile(await readFile(logsPath, 'utf8'), logsPath);
+  }
+
+  return {
+    name: 'file',
+
+    async getLogs(range: LogRange = {}): Promise<LogEntry[]> {
+      return logsInRange(await getLogs(), range);
+    },
+
+    async getStats(): Promise<StatsData> {
+      if (statsPath) {
+        return parseStatsData(JSON.parse(await readFile(statsPath, 'utf8')), statsPath);
+      }
+      return computeStats(await getLogs());
+    },
+  };
+}
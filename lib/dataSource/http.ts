@@ -0,0 +1,39 @@
+import { LogEntry, LogRange, StatsData, logsInRange } from '../types';
+import { parseLogEntries, parseStatsData } from '../schema';
+import { HttpError, withRetry } from '../retry';
+import { DataSource } from './types';
+
+export const DEFAULT_API_BASE_URL = 'https://api.medtalk.co/logs';
+
+// Reads from the MedTalk logs API or any service exposing the same /logs and /stats endpoints.
+// Transient failures are retried with backoff, and payloads are validated before use.
+export function createHttpDataSource(baseUrl: string = DEFAULT_API_BASE_URL): DataSource {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  async function get<T>(path: string, parse: (value: unknown, label: string) => T): Promise<T> {
+    return withRetry(async () => {
+      const response = await fetch(`${root}${path}`, { next: { revalidate: 60 } });
+      if (!response.ok) {
+        throw new HttpError(`Failed to fetch ${root}${path}: ${response.status}`, response.status);
+      }
+      return parse(await response.json(), `${path} response`);
+    }, {
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`Retrying ${root}${path} in ${delayMs}ms (attempt ${attempt}):`, (error as Error).message);
+      },
+    });
+  }
+
+  return {
+    name: 'http',
+
+    // The API has no range parameters, so ranges are applied to the full response
+    async getLogs(range: LogRange = {}): Promise<LogEntry[]> {
+      return logsInRange(await get('/logs', parseLogEntries), range);
+    },
+
+    getStats(): Promise<StatsData> {
+      return get('/stats', parseStatsData);
+    },
+  };
+}
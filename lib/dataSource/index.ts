@@ -0,0 +1,75 @@
+import path from 'path';
+import { DataSource } from './types';
+import { createHttpDataSource } from './http';
+import { createFileDataSource } from './file';
+import { createMemoryDataSource } from './memory';
+import { createStoredDataSource, DEFAULT_RETENTION_DAYS, DEFAULT_SYNC_INTERVAL_MS } from './stored';
+import { openLogStore } from '../logStore';
+
+export type { DataSource } from './types';
+export type { StoreOptions } from './stored';
+export { createHttpDataSource, createFileDataSource, createMemoryDataSource, createStoredDataSource };
+
+let dataSource: DataSource | null = null;
+
+// Pick the data source from environment config:
+//   LOG_SOURCE=http   (default) reads LOG_API_BASE_URL, e.g. https://api.medtalk.co/logs
+//   LOG_SOURCE=file   reads LOG_FILE_PATH (JSON or NDJSON) and optional STATS_FILE_PATH
+//   LOG_SOURCE=memory serves generated fixture data
+function createUpstreamFromEnv(env: NodeJS.ProcessEnv): DataSource {
+  const kind = env.LOG_SOURCE || 'http';
+
+  switch (kind) {
+    case 'http':
+      return createHttpDataSource(env.LOG_API_BASE_URL || undefined);
+    case 'file':
+      if (!env.LOG_FILE_PATH) {
+        throw new Error('LOG_FILE_PATH must be set when LOG_SOURCE=file');
+      }
+      return createFileDataSource(env.LOG_FILE_PATH, env.STATS_FILE_PATH || undefined);
+    case 'memory':
+      return createMemoryDataSource();
+    default:
+      throw new Error(`Unknown LOG_SOURCE: ${kind}`);
+  }
+}
+
+function numberFromEnv(name: string, value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return number;
+}
+
+// The upstream source is synced into a local history store:
+//   LOG_STORE=sqlite  (default, except for LOG_SOURCE=memory) keeps history in LOG_STORE_PATH
+//   LOG_STORE=none    reads the upstream source directly
+// LOG_RETENTION_DAYS (default 90, 0 keeps everything) bounds raw entries; daily stats are kept forever.
+// LOG_SYNC_INTERVAL_SECONDS (default 60) is the minimum time between upstream syncs.
+export function createDataSourceFromEnv(env: NodeJS.ProcessEnv = process.env): DataSource {
+  const upstream = createUpstreamFromEnv(env);
+  const store = env.LOG_STORE || (upstream.name === 'memory' ? 'none' : 'sqlite');
+
+  switch (store) {
+    case 'none':
+      return upstream;
+    case 'sqlite':
+      return createStoredDataSource(upstream, openLogStore(env.LOG_STORE_PATH || path.join(process.cwd(), 'data', 'logs.sqlite')), {
+        retentionDays: numberFromEnv('LOG_RETENTION_DAYS', env.LOG_RETENTION_DAYS, DEFAULT_RETENTION_DAYS),
+        syncIntervalMs: numberFromEnv('LOG_SYNC_INTERVAL_SECONDS', env.LOG_SYNC_INTERVAL_SECONDS, DEFAULT_SYNC_INTERVAL_MS / 1000) * 1000,
+      });
+    default:
+      throw new Error(`Unknown LOG_STORE: ${store}`);
+  }
+}
+
+export function getDataSource(): DataSource {
+  return dataSource ??= createDataSourceFromEnv();
+}
+
+// Override the active data source, e.g. to inject fixtures in tests
+export function setDataSource(source: DataSource | null) {
+  dataSource = source;
+}
@@ -0,0 +1,56 @@
+import { LogEntry, LogRange, StatsData, logsInRange } from '../types';
+import { computeStats } from '../stats';
+import { DataSource } from './types';
+
+const FIXTURE_LOCATIONS = [
+  { country: 'US', region: 'Virginia', city: 'Ashburn', org: 'Amazon.com, Inc.' },
+  { country: 'US', region: 'California', city: 'Mountain View', org: 'Google LLC' },
+  { country: 'US', region: 'New York', city: 'New York', org: 'Verizon Business' },
+  { country: 'GB', region: 'England', city: 'London', org: 'British Telecommunications PLC' },
+  { country: 'DE', region: 'Hesse', city: 'Frankfurt am Main', org: 'Hetzner Online GmbH' },
+  { country: 'FR', region: 'Île-de-France', city: 'Paris', org: 'Orange S.A.' },
+  { country: 'IN', region: 'Maharashtra', city: 'Mumbai', org: 'Reliance Jio Infocomm Limited' },
+  { country: 'BR', region: 'São Paulo', city: 'São Paulo', org: 'Claro NXT Telecomunicacoes Ltda' },
+  { country: 'NG', region: 'Lagos', city: 'Lagos', org: 'MTN Nigeria' },
+  { country: 'JP', region: 'Tokyo', city: 'Tokyo', org: 'NTT Communications Corporation' },
+];
+
+// Small deterministic PRNG so fixtures are stable across reloads
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generate a plausible set of log entries spread over the last `days` days
+export function generateFixtureLogs(count = 500, days = 15, seed = 42, now = new Date()): LogEntry[] {
+  const random = mulberry32(seed);
+  const visitors = Array.from({ length: Math.max(1, Math.floor(count / 5)) }, (_, i) => ({
+    ip: `${10 + (i % 200)}.${Math.floor(random() * 256)}.${Math.floor(random() * 256)}.${Math.floor(random() * 256)}`,
+    ...FIXTURE_LOCATIONS[Math.floor(random() * FIXTURE_LOCATIONS.length)],
+  }));
+  const windowMs = days * 24 * 60 * 60 * 1000;
+
+  return Array.from({ length: count }, () => {
+    const visitor = visitors[Math.floor(random() * visitors.length)];
+    const timestamp = new Date(now.getTime() - Math.floor(random() * windowMs));
+    return { ...visitor, timestamp: timestamp.toISOString() };
+  }).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+// Serves a fixed set of logs from memory, useful for offline development and tests
+export function createMemoryDataSource(logs: LogEntry[] = generateFixtureLogs(), stats?: StatsData): DataSource {
+  return {
+    name: 'memory',
+    async getLogs(range: LogRange = {}) {
+      return logsInRange(logs, range);
+    },
+    async getStats() {
+      return stats ?? computeStats(logs);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { LogEntry, LogRange, StatsData } from '../types';
+import { LogStore } from '../logStore';
+import { DataSource, LogPage, LogPageRequest } from './types';
+
+export interface StoreOptions {
+  // Minimum time between upstream syncs
+  syncIntervalMs?: number;
+  // Raw entries older than this are pruned; 0 keeps them forever
+  retentionDays?: number;
+}
+
+export const DEFAULT_SYNC_INTERVAL_MS = 60 * 1000;
+export const DEFAULT_RETENTION_DAYS = 90;
+
+const PROCESSED = 'last_processed_timestamp';
+// Entries can reach the source late, with a timestamp before ones already stored
+const SYNC_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+// Serves logs and stats from a local store, syncing new entries from the upstream source first.
+// Upstream stats are fetched on each sync and, when last_processed_timestamp has moved, merged into
+// the stored aggregates along with the entries from shortly before the latest stored one; the store
+// drops entries it already holds. When upstream is unavailable the stored history is served as is.
+export function createStoredDataSource(upstream: DataSource, store: LogStore, options: StoreOptions = {}): DataSource {
+  const syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+  const retentionDays = options.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  let syncing: Promise<void> | null = null;
+  let lastSync = 0;
+
+  async function pull() {
+    const latest = store.latestTimestamp();
+    const stats = await upstream.getStats();
+    const processed = stats.last_processed_timestamp;
+
+    if (!latest || !processed || processed !== store.getState(PROCESSED)) {
+      // Stats first, so visitors the source saw before its daily stats begin aren't counted as new
+      store.mergeStats(stats);
+
+      // Never reach back past the retention period, where pruned entries would be counted again
+      let start = latest ? Date.parse(latest) - SYNC_OVERLAP_MS : undefined;
+      if (retentionDays > 0) start = Math.max(start ?? -Infinity, Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+      store.insertLogs(await upstream.getLogs({ start }));
+      if (processed) store.setState(PROCESSED, processed);
+    }
+
+    if (retentionDays > 0) store.prune(retentionDays);
+  }
+
+  async function sync() {
+    if (Date.now() - lastSync < syncIntervalMs) return;
+    syncing ??= pull()
+      .catch((error) => {
+        if (store.latestTimestamp() === '') throw error;
+        console.error(`Sync from ${upstream.name} failed, serving stored logs:`, error);
+      })
+      .then(() => {
+        // Failed syncs wait out the interval too, so an outage doesn't slow every request
+        lastSync = Date.now();
+      })
+      .finally(() => {
+        syncing = null;
+      });
+    await syncing;
+  }
+
+  return {
+    name: `${upstream.name}+store`,
+
+    async getLogs(range?: LogRange): Promise<LogEntry[]> {
+      await sync();
+      return store.logs(range);
+    },
+
+    async getLogPage({ range, sort, offset, limit }: LogPageRequest): Promise<LogPage> {
+      await sync();
+      return store.page(range, sort, offset, limit);
+    },
+
+    async getStats(): Promise<StatsData> {
+      await sync();
+      return store.stats();
+    },
+  };
+}
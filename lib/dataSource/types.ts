@@ -0,0 +1,23 @@
+import { LogEntry, LogRange, SortKey, StatsData } from '../types';
+
+export interface LogPageRequest {
+  range: LogRange;
+  sort: SortKey[];
+  offset: number;
+  limit: number;
+}
+
+export interface LogPage {
+  items: LogEntry[];
+  // Entries in the range
+  total: number;
+}
+
+export interface DataSource {
+  name: string;
+  // Entries within the range, or all of them
+  getLogs(range?: LogRange): Promise<LogEntry[]>;
+  getStats(): Promise<StatsData>;
+  // One sorted page of the entries in a range, for sources that can serve it without loading the rest
+  getLogPage?(request: LogPageRequest): Promise<LogPage>;
+}
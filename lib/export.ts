@@ -0,0 +1,82 @@
+import { LogEntry } from './types';
+import { buildXlsx } from './xlsx';
+import { DEFAULT_TIME_ZONE, isoInZone } from './timezone';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+export type ExportColumn = keyof LogEntry;
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'xlsx'];
+
+export const EXPORT_COLUMNS: { key: ExportColumn; label: string }[] = [
+  { key: 'ip', label: 'IP Address' },
+  { key: 'timestamp', label: 'Timestamp' },
+  { key: 'country', label: 'Country' },
+  { key: 'region', label: 'Region' },
+  { key: 'city', label: 'City' },
+  { key: 'org', label: 'Organization' },
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Parse a comma-separated column list, keeping the given order. Empty means all columns.
+export function parseExportColumns(value: string | null): ExportColumn[] | null {
+  if (!value) return EXPORT_COLUMNS.map((column) => column.key);
+
+  const keys = EXPORT_COLUMNS.map((column) => column.key);
+  const columns = value.split(',').map((column) => column.trim());
+  return columns.every((column) => keys.includes(column as ExportColumn))
+    ? columns as ExportColumn[]
+    : null;
+}
+
+function csvCell(value: string): string {
+  // Guard against formula injection when the file is opened in a spreadsheet
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function label(column: ExportColumn, timeZone: string) {
+  const text = EXPORT_COLUMNS.find((c) => c.key === column)?.label ?? column;
+  return column === 'timestamp' ? `${text} ${timeZone}` : text;
+}
+
+// Timestamps are written as ISO 8601 with the offset of the selected zone
+function cell(log: LogEntry, column: ExportColumn, timeZone: string): string {
+  return column === 'timestamp' ? isoInZone(log.timestamp, timeZone) : log[column] ?? '';
+}
+
+// Yield an export line by line, so large result sets can be streamed
+export function* exportLines(
+  logs: LogEntry[],
+  format: 'csv' | 'ndjson',
+  columns: ExportColumn[],
+  timeZone = DEFAULT_TIME_ZONE
+): Generator<string> {
+  if (format === 'csv') {
+    yield columns.map((column) => csvCell(label(column, timeZone))).join(',') + '\r\n';
+    for (const log of logs) {
+      yield columns.map((column) => csvCell(cell(log, column, timeZone))).join(',') + '\r\n';
+    }
+    return;
+  }
+
+  for (const log of logs) {
+    const row: Partial<LogEntry> = {};
+    for (const column of columns) {
+      row[column] = column === 'timestamp' ? cell(log, column, timeZone) : log[column];
+    }
+    yield JSON.stringify(row) + '\n';
+  }
+}
+
+export function exportXlsx(logs: LogEntry[], columns: ExportColumn[], timeZone = DEFAULT_TIME_ZONE): Uint8Array<ArrayBuffer> {
+  const rows = [
+    columns.map((column) => label(column, timeZone)),
+    ...logs.map((log) => columns.map((column) => cell(log, column, timeZone))),
+  ];
+  return buildXlsx(rows, 'Logs');
+}
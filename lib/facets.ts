@@ -0,0 +1,77 @@
+import { LogEntry } from './types';
+
+export const FACET_FIELDS = ['country', 'region', 'city', 'org'] as const;
+export type FacetField = typeof FACET_FIELDS[number];
+
+export const FACET_LABELS: Record<FacetField, string> = {
+  country: 'Country',
+  region: 'Region',
+  city: 'City',
+  org: 'Organization',
+};
+
+export interface FacetFilter {
+  field: FacetField;
+  value: string;
+  exclude: boolean;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Within a field, included values are alternatives (any may match); excluded values must all miss.
+// Different fields must all match.
+export function matchesFacets(log: LogEntry, facets: FacetFilter[]): boolean {
+  for (const field of FACET_FIELDS) {
+    const includes = facets.filter((facet) => facet.field === field && !facet.exclude);
+    if (includes.length > 0 && !includes.some((facet) => facet.value === log[field])) return false;
+    if (facets.some((facet) => facet.field === field && facet.exclude && facet.value === log[field])) return false;
+  }
+  return true;
+}
+
+export function filterByFacets(logs: LogEntry[], facets: FacetFilter[]): LogEntry[] {
+  return facets.length === 0 ? logs : logs.filter((log) => matchesFacets(log, facets));
+}
+
+// Value counts for one field, ignoring that field's own facets so the other values stay selectable
+export function countFacetValues(logs: LogEntry[], field: FacetField, facets: FacetFilter[]): FacetCount[] {
+  const others = facets.filter((facet) => facet.field !== field);
+  const counts = new Map<string, number>();
+  for (const log of filterByFacets(logs, others)) {
+    counts.set(log[field], (counts.get(log[field]) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// Include, exclude or clear a value; a value is never both included and excluded
+export function setFacet(facets: FacetFilter[], field: FacetField, value: string, state: 'include' | 'exclude' | null): FacetFilter[] {
+  const rest = facets.filter((facet) => facet.field !== field || facet.value !== value);
+  return state === null ? rest : [...rest, { field, value, exclude: state === 'exclude' }];
+}
+
+export function facetState(facets: FacetFilter[], field: FacetField, value: string): 'include' | 'exclude' | null {
+  const facet = facets.find((item) => item.field === field && item.value === value);
+  return facet ? (facet.exclude ? 'exclude' : 'include') : null;
+}
+
+// "country:US", "-org:Google LLC"; values are everything after the first colon
+export function formatFacet({ field, value, exclude }: FacetFilter): string {
+  return `${exclude ? '-' : ''}${field}:${value}`;
+}
+
+export function parseFacet(text: string): FacetFilter | null {
+  const exclude = text.startsWith('-');
+  const body = exclude ? text.slice(1) : text;
+  const colon = body.indexOf(':');
+  if (colon === -1) return null;
+
+  const field = body.slice(0, colon) as FacetField;
+  if (!FACET_FIELDS.includes(field)) return null;
+  return { field, value: body.slice(colon + 1), exclude };
+}
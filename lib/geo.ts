@@ -0,0 +1,61 @@
+import countries from 'i18n-iso-countries';
+import en from 'i18n-iso-countries/langs/en.json';
+import { LogEntry, visitorKey } from './types';
+
+countries.registerLocale(en);
+
+export interface LocationMetric {
+  name: string;
+  hits: number;
+  uniqueIPs: number;
+}
+
+export type MapMetric = 'hits' | 'uniqueIPs';
+
+// ISO 3166-1 numeric code (as used by world-atlas) for a country given as a code or an English name
+export function countryToNumeric(country: string): string | null {
+  const value = country.trim();
+  if (/^[a-z]{2}$/i.test(value)) return countries.alpha2ToNumeric(value.toUpperCase()) ?? null;
+  if (/^[a-z]{3}$/i.test(value)) return countries.alpha3ToNumeric(value.toUpperCase()) ?? null;
+
+  const alpha2 = countries.getAlpha2Code(value, 'en');
+  return alpha2 ? countries.alpha2ToNumeric(alpha2) ?? null : null;
+}
+
+export function countryName(country: string): string {
+  if (/^[a-z]{2}$/i.test(country)) {
+    return countries.getName(country.toUpperCase(), 'en', { select: 'alias' }) ?? country;
+  }
+  return country;
+}
+
+function aggregate(logs: LogEntry[], key: (log: LogEntry) => string): LocationMetric[] {
+  const groups = new Map<string, { hits: number; visitors: Set<string> }>();
+  for (const log of logs) {
+    const name = key(log) || 'Unknown';
+    let group = groups.get(name);
+    if (!group) {
+      group = { hits: 0, visitors: new Set() };
+      groups.set(name, group);
+    }
+    group.hits++;
+    group.visitors.add(visitorKey(log));
+  }
+
+  return [...groups.entries()]
+    .map(([name, { hits, visitors }]) => ({ name, hits, uniqueIPs: visitors.size }))
+    .sort((a, b) => b.hits - a.hits || a.name.localeCompare(b.name));
+}
+
+export function aggregateByCountry(logs: LogEntry[]): LocationMetric[] {
+  return aggregate(logs, (log) => log.country);
+}
+
+// Region and city breakdown for one country
+export function aggregateLocations(logs: LogEntry[], country: string) {
+  const inCountry = logs.filter((log) => log.country === country);
+  return {
+    regions: aggregate(inCountry, (log) => log.region),
+    cities: aggregate(inCountry, (log) => (log.region && log.city ? `${log.city}, ${log.region}` : log.city)),
+  };
+}
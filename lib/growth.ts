@@ -0,0 +1,102 @@
+import { subDays, format, parseISO } from 'date-fns';
+import { StatsData } from './types';
+
+export interface GrowthPoint {
+  date: string;
+  newHits: number;
+  newUsers: number;
+  newCountries: string[];
+  cumulativeHits: number;
+  cumulativeUsers: number;
+  cumulativeCountries: number;
+}
+
+export interface Delta {
+  change: number;
+  percent: number | null;
+}
+
+export interface GrowthDeltas {
+  dayOverDay: Delta;
+  weekOverWeek: Delta;
+}
+
+export type GrowthMetric = 'cumulativeHits' | 'cumulativeUsers' | 'cumulativeCountries';
+
+// The API sends these as lists, but tolerate plain counts as well
+export function countOf(value: string[] | number | undefined): number {
+  if (Array.isArray(value)) return value.length;
+  return value || 0;
+}
+
+export interface GlobalTotals {
+  totalHits: number;
+  uniqueUsers: number;
+  uniqueCountries: number;
+}
+
+// All-time totals reported by the data source
+export function globalTotals(stats: StatsData | null): GlobalTotals {
+  if (!stats) return { totalHits: 0, uniqueUsers: 0, uniqueCountries: 0 };
+  return {
+    totalHits: stats.total_hits || 0,
+    uniqueUsers: countOf(stats.unique_ips),
+    uniqueCountries: countOf(stats.unique_countries),
+  };
+}
+
+// Running totals per day from StatsData.daily_stats, oldest day first
+export function buildGrowthSeries(stats: StatsData | null): GrowthPoint[] {
+  if (!stats?.daily_stats) return [];
+
+  let cumulativeHits = 0;
+  let cumulativeUsers = 0;
+  let cumulativeCountries = 0;
+
+  return Object.keys(stats.daily_stats)
+    .sort()
+    .map((date) => {
+      const daily = stats.daily_stats[date];
+      cumulativeHits += daily.new_hits;
+      cumulativeUsers += daily.new_unique_ips.length;
+      cumulativeCountries += daily.new_unique_countries.length;
+
+      return {
+        date,
+        newHits: daily.new_hits,
+        newUsers: daily.new_unique_ips.length,
+        newCountries: daily.new_unique_countries,
+        cumulativeHits,
+        cumulativeUsers,
+        cumulativeCountries,
+      };
+    });
+}
+
+export function delta(current: number, previous: number | undefined): Delta {
+  if (previous === undefined) return { change: 0, percent: null };
+  const change = current - previous;
+  return { change, percent: previous > 0 ? (change / previous) * 100 : null };
+}
+
+// Change in a cumulative metric versus one day and one week before the latest day
+export function growthDeltas(series: GrowthPoint[], metric: GrowthMetric): GrowthDeltas | null {
+  if (series.length === 0) return null;
+
+  const latest = series[series.length - 1];
+  const byDate = new Map(series.map((point) => [point.date, point[metric]]));
+  const latestDate = parseISO(latest.date);
+
+  // Days without traffic are missing from daily_stats, so fall back to the last known value
+  const valueAt = (date: Date) => {
+    const key = format(date, 'yyyy-MM-dd');
+    if (byDate.has(key)) return byDate.get(key);
+    const earlier = series.filter((point) => point.date < key);
+    return earlier.length > 0 ? earlier[earlier.length - 1][metric] : 0;
+  };
+
+  return {
+    dayOverDay: delta(latest[metric], valueAt(subDays(latestDate, 1))),
+    weekOverWeek: delta(latest[metric], valueAt(subDays(latestDate, 7))),
+  };
+}
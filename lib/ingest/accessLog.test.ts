@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AccessLogError, AccessLogFormat, parseAccessLog } from './accessLog';
+import { ingestAccessLog, openGeoIp } from './index';
+
+const COMBINED = '203.0.113.9 - - [10/Oct/2025:13:55:36 -0700] "GET /api/reports?id=1 HTTP/1.1" 200 2326 "-" "curl/8.0"';
+const COMMON = '198.51.100.4 - frank [10/Oct/2025:20:55:36 +0000] "POST /login HTTP/1.0" 302 -';
+const JSON_LINE = '{"time_iso8601":"2025-10-10T20:56:00+00:00","remote_addr":"192.0.2.1","request":"GET /api/x HTTP/1.1","status":"404"}';
+
+describe('parseAccessLog', () => {
+  it('parses combined and common log lines into UTC records', () => {
+    const { records, lines, skipped } = parseAccessLog([COMBINED, COMMON].join('\n'));
+    expect(records).toEqual([
+      { ip: '203.0.113.9', timestamp: '2025-10-10T20:55:36.000Z', method: 'GET', path: '/api/reports?id=1', status: 200 },
+      { ip: '198.51.100.4', timestamp: '2025-10-10T20:55:36.000Z', method: 'POST', path: '/login', status: 302 },
+    ]);
+    expect({ lines, skipped }).toEqual({ lines: 2, skipped: 0 });
+  });
+
+  it('parses JSON lines with nginx and other common field names', () => {
+    const msec = '{"msec":"1760129760.123","client_ip":"192.0.2.2","method":"GET","uri":"/health","status":200}';
+    const { records } = parseAccessLog([JSON_LINE, msec].join('\n'));
+    expect(records).toEqual([
+      { ip: '192.0.2.1', timestamp: '2025-10-10T20:56:00.000Z', method: 'GET', path: '/api/x', status: 404 },
+      { ip: '192.0.2.2', timestamp: '2025-10-10T20:56:00.123Z', method: 'GET', path: '/health', status: 200 },
+    ]);
+  });
+
+  it('accepts IPv6 clients in both formats', () => {
+    const combined = '2001:db8::1 - - [10/Oct/2025:13:55:36 +0200] "GET / HTTP/2.0" 200 12';
+    const json = '{"timestamp":"2025-10-10T11:55:36Z","remote_addr":"2001:db8:0:1::42","path":"/"}';
+    expect(parseAccessLog([combined, json].join('\n')).records.map((record) => [record.ip, record.timestamp])).toEqual([
+      ['2001:db8::1', '2025-10-10T11:55:36.000Z'],
+      ['2001:db8:0:1::42', '2025-10-10T11:55:36.000Z'],
+    ]);
+  });
+
+  it('skips malformed lines and reports why, by line number', () => {
+    const contents = [
+      COMBINED,
+      '',
+      'not a log line',
+      '203.0.113.9 - - [32/Oct/2025:13:55:36 -0700] "GET / HTTP/1.1" 200 1',
+      '{"remote_addr":"192.0.2.1","time":"yesterday"}',
+      '{"remote_addr":"192.0.2.1"',
+      '{"time":"2025-10-10T20:56:00Z"}',
+      '999.1.1.1 - - [10/Oct/2025:13:55:36 -0700] "GET / HTTP/1.1" 200 1',
+    ].join('\r\n');
+
+    const { records, lines, skipped, errors } = parseAccessLog(contents);
+    expect(records).toHaveLength(1);
+    expect({ lines, skipped }).toEqual({ lines: 7, skipped: 6 });
+    expect(errors).toEqual([
+      { line: 3, reason: 'not in combined or common log format' },
+      { line: 4, reason: 'invalid time: 32/Oct/2025:13:55:36 -0700' },
+      { line: 5, reason: 'no valid time in any of time_iso8601, @timestamp, timestamp, time, time_local, msec' },
+      { line: 6, reason: 'invalid JSON' },
+      { line: 7, reason: 'no client IP in any of remote_addr, client_ip, clientip, remote_ip, remoteAddr, ip' },
+      { line: 8, reason: 'invalid IP: 999.1.1.1' },
+    ]);
+  });
+
+  it('keeps only the first 20 errors but counts every skipped line', () => {
+    const { skipped, errors } = parseAccessLog(Array.from({ length: 25 }, () => 'garbage').join('\n'));
+    expect(skipped).toBe(25);
+    expect(errors).toHaveLength(20);
+  });
+
+  it('leaves out requests outside the path prefix without counting them as skipped', () => {
+    const { records, lines, skipped } = parseAccessLog([COMBINED, COMMON, JSON_LINE].join('\n'), { pathPrefix: '/api/' });
+    expect(records.map((record) => record.path)).toEqual(['/api/reports?id=1', '/api/x']);
+    expect({ lines, skipped }).toEqual({ lines: 3, skipped: 0 });
+  });
+
+  it('parses every line as the forced format', () => {
+    expect(parseAccessLog(COMBINED, { format: 'json' }).errors).toEqual([{ line: 1, reason: 'invalid JSON' }]);
+    expect(parseAccessLog('["192.0.2.1"]', { format: 'json' }).errors).toEqual([{ line: 1, reason: 'not a JSON object' }]);
+    expect(parseAccessLog(JSON_LINE, { format: 'combined' }).errors)
+      .toEqual([{ line: 1, reason: 'not in combined or common log format' }]);
+    expect(() => parseAccessLog(COMBINED, { format: 'csv' as AccessLogFormat })).toThrow(AccessLogError);
+  });
+});
+
+describe('ingestAccessLog', () => {
+  it('enriches entries from the GeoIP lookup and sorts them by time', () => {
+    const geo = { lookup: (ip: string) => ({ country: ip.startsWith('203.') ? 'US' : 'DE', region: '', city: '', org: 'AS64500 Example' }) };
+    const { logs, stats, skipped } = ingestAccessLog([JSON_LINE, COMBINED, 'garbage'].join('\n'), geo);
+    expect(logs).toEqual([
+      { ip: '203.0.113.9', timestamp: '2025-10-10T20:55:36.000Z', country: 'US', region: '', city: '', org: 'AS64500 Example' },
+      { ip: '192.0.2.1', timestamp: '2025-10-10T20:56:00.000Z', country: 'DE', region: '', city: '', org: 'AS64500 Example' },
+    ]);
+    expect(stats.total_hits).toBe(2);
+    expect(skipped).toBe(1);
+  });
+
+  it('leaves the GeoIP fields empty without databases', async () => {
+    const geo = await openGeoIp({});
+    expect(geo.lookup('203.0.113.9')).toEqual({ country: '', region: '', city: '', org: '' });
+  });
+});
@@ -0,0 +1,129 @@
+import { isIP } from 'net';
+import { isValid, parse, parseISO } from 'date-fns';
+
+// Parses web server access logs: the nginx/Apache "combined" and "common" formats, and JSON lines
+// such as nginx `log_format ... escape=json`. Lines are detected individually, so mixed files work.
+
+export const ACCESS_LOG_FORMATS = ['auto', 'combined', 'json'] as const;
+export type AccessLogFormat = typeof ACCESS_LOG_FORMATS[number];
+
+export interface AccessRecord {
+  ip: string;
+  // ISO 8601 in UTC
+  timestamp: string;
+  method: string;
+  path: string;
+  status: number;
+}
+
+export interface SkippedLine {
+  line: number;
+  reason: string;
+}
+
+export interface AccessLogResult {
+  records: AccessRecord[];
+  lines: number;
+  skipped: number;
+  // The first few skipped lines, for diagnosing a format mismatch
+  errors: SkippedLine[];
+}
+
+export interface AccessLogOptions {
+  format?: AccessLogFormat;
+  // Keep only requests whose path starts with this, e.g. "/api/"
+  pathPrefix?: string;
+}
+
+export class AccessLogError extends Error {}
+
+const MAX_ERRORS = 20;
+
+// host ident authuser [time] "request" status bytes ["referer" "user-agent"]
+const COMBINED_LINE = /^(\S+) \S+ \S+ \[([^\]]+)\] "((?:[^"\\]|\\.)*)" (\d{3}) (?:\d+|-)/;
+
+const CLF_TIME = 'dd/MMM/yyyy:HH:mm:ss xx';
+
+const JSON_IP_FIELDS = ['remote_addr', 'client_ip', 'clientip', 'remote_ip', 'remoteAddr', 'ip'];
+const JSON_TIME_FIELDS = ['time_iso8601', '@timestamp', 'timestamp', 'time', 'time_local', 'msec'];
+const JSON_PATH_FIELDS = ['request_uri', 'uri', 'path', 'url'];
+
+function parseTime(value: unknown): Date | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value))) {
+    // nginx $msec is seconds with millisecond precision; larger values are already milliseconds
+    const number = Number(value);
+    return new Date(number > 1e12 ? number : number * 1000);
+  }
+  if (typeof value !== 'string') return null;
+  const date = value.includes('/') ? parse(value, CLF_TIME, new Date()) : parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+function splitRequest(request: string): { method: string; path: string } {
+  const [method = '', path = ''] = request.split(' ');
+  return { method, path };
+}
+
+function pick(record: Record<string, unknown>, fields: string[]): unknown {
+  const field = fields.find((name) => record[name] !== undefined && record[name] !== '');
+  return field ? record[field] : undefined;
+}
+
+function parseCombinedLine(line: string): AccessRecord | string {
+  const match = COMBINED_LINE.exec(line);
+  if (!match) return 'not in combined or common log format';
+  const [, ip, time, request, status] = match;
+  const date = parseTime(time);
+  if (!date) return `invalid time: ${time}`;
+  return { ip, timestamp: date.toISOString(), ...splitRequest(request), status: Number(status) };
+}
+
+function parseJsonLine(line: string): AccessRecord | string {
+  let record: unknown;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return 'invalid JSON';
+  }
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) return 'not a JSON object';
+
+  const fields = record as Record<string, unknown>;
+  const ip = pick(fields, JSON_IP_FIELDS);
+  if (typeof ip !== 'string') return `no client IP in any of ${JSON_IP_FIELDS.join(', ')}`;
+  const date = parseTime(pick(fields, JSON_TIME_FIELDS));
+  if (!date) return `no valid time in any of ${JSON_TIME_FIELDS.join(', ')}`;
+
+  const request = typeof fields.request === 'string' ? splitRequest(fields.request) : {
+    method: String(fields.method ?? fields.request_method ?? ''),
+    path: String(pick(fields, JSON_PATH_FIELDS) ?? ''),
+  };
+  return { ip, timestamp: date.toISOString(), ...request, status: Number(fields.status) || 0 };
+}
+
+export function parseAccessLog(contents: string, options: AccessLogOptions = {}): AccessLogResult {
+  const format = options.format ?? 'auto';
+  if (!ACCESS_LOG_FORMATS.includes(format)) {
+    throw new AccessLogError(`Unknown format: ${format}. Expected one of ${ACCESS_LOG_FORMATS.join(', ')}`);
+  }
+
+  const result: AccessLogResult = { records: [], lines: 0, skipped: 0, errors: [] };
+  const lines = contents.split(/\r?\n/);
+  lines.forEach((text, index) => {
+    const line = text.trim();
+    if (!line) return;
+    result.lines++;
+
+    const isJson = format === 'json' || (format === 'auto' && line.startsWith('{'));
+    let parsed = isJson ? parseJsonLine(line) : parseCombinedLine(line);
+    if (typeof parsed !== 'string' && !isIP(parsed.ip)) parsed = `invalid IP: ${parsed.ip}`;
+
+    if (typeof parsed === 'string') {
+      result.skipped++;
+      if (result.errors.length < MAX_ERRORS) result.errors.push({ line: index + 1, reason: parsed });
+      return;
+    }
+    if (options.pathPrefix && !parsed.path.startsWith(options.pathPrefix)) return;
+    result.records.push(parsed);
+  });
+  return result;
+}
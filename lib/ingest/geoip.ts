@@ -0,0 +1,58 @@
+import maxmind, { AsnResponse, CityResponse, Reader } from 'maxmind';
+import { LogEntry } from '../types';
+
+export type GeoFields = Pick<LogEntry, 'country' | 'region' | 'city' | 'org'>;
+
+export interface GeoIpConfig {
+  // GeoLite2/GeoIP2 City or Country database (.mmdb)
+  cityDb?: string;
+  // GeoLite2/GeoIP2 ASN database (.mmdb)
+  asnDb?: string;
+}
+
+export interface GeoIpLookup {
+  lookup(ip: string): GeoFields;
+}
+
+const EMPTY: GeoFields = { country: '', region: '', city: '', org: '' };
+
+export function geoIpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): GeoIpConfig {
+  return { cityDb: env.GEOIP_CITY_DB || undefined, asnDb: env.GEOIP_ASN_DB || undefined };
+}
+
+// Readers are memory-mapped databases, opened once per path and reused
+const readers = new Map<string, Promise<Reader<CityResponse | AsnResponse>>>();
+
+function openReader<T extends CityResponse | AsnResponse>(path: string): Promise<Reader<T>> {
+  let reader = readers.get(path);
+  if (!reader) {
+    reader = maxmind.open<CityResponse | AsnResponse>(path, { cache: { max: 10000 } });
+    readers.set(path, reader);
+    reader.catch(() => readers.delete(path));
+  }
+  return reader as Promise<Reader<T>>;
+}
+
+// Looks IPs up in local MaxMind-format databases, filling the same fields the MedTalk API provides.
+// Either database may be left out; its fields then stay empty.
+export async function openGeoIp(config: GeoIpConfig): Promise<GeoIpLookup> {
+  const [city, asn] = await Promise.all([
+    config.cityDb ? openReader<CityResponse>(config.cityDb) : null,
+    config.asnDb ? openReader<AsnResponse>(config.asnDb) : null,
+  ]);
+
+  return {
+    lookup(ip) {
+      const location = city?.get(ip);
+      const network = asn?.get(ip);
+      if (!location && !network) return EMPTY;
+      return {
+        country: location?.country?.iso_code ?? location?.registered_country?.iso_code ?? '',
+        region: location?.subdivisions?.[0]?.names.en ?? '',
+        city: location?.city?.names.en ?? '',
+        // ipinfo-style, as parseOrg expects
+        org: network ? `AS${network.autonomous_system_number} ${network.autonomous_system_organization}` : '',
+      };
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LogEntry, StatsData } from '../types';
+import { computeStats } from '../stats';
+import { parseLogFile } from '../dataSource/file';
+import { AccessLogOptions, SkippedLine, parseAccessLog } from './accessLog';
+import { GeoIpLookup } from './geoip';
+
+export { parseAccessLog, AccessLogError, ACCESS_LOG_FORMATS } from './accessLog';
+export type { AccessLogFormat, AccessLogOptions, AccessRecord } from './accessLog';
+export { openGeoIp, geoIpConfigFromEnv } from './geoip';
+export type { GeoIpConfig, GeoIpLookup } from './geoip';
+
+export interface IngestResult {
+  logs: LogEntry[];
+  stats: StatsData;
+  lines: number;
+  skipped: number;
+  errors: SkippedLine[];
+}
+
+export function ingestAccessLog(contents: string, geo: GeoIpLookup, options: AccessLogOptions = {}): IngestResult {
+  const { records, lines, skipped, errors } = parseAccessLog(contents, options);
+  const logs = records
+    .map(({ ip, timestamp }) => ({ ip, timestamp, ...geo.lookup(ip) }))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return { logs, stats: computeStats(logs), lines, skipped, errors };
+}
+
+export function defaultIngestFile(env: NodeJS.ProcessEnv = process.env): string {
+  return env.INGEST_LOG_FILE || path.join(process.cwd(), 'data', 'ingested.ndjson');
+}
+
+function entryKey(log: LogEntry): string {
+  return `${log.timestamp}|${log.ip}`;
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Appends entries to an NDJSON file that LOG_SOURCE=file can serve. Re-ingesting the same log is
+// a no-op: each entry cancels out one already stored with the same time and IP, so repeated hits
+// within a second are kept while a second upload of a file adds nothing.
+export function appendIngestedLogs(file: string, logs: LogEntry[]): Promise<{ added: number; duplicates: number }> {
+  const write = writeQueue.then(async () => {
+    let existing: LogEntry[] = [];
+    try {
+      existing = parseLogFile(await fs.readFile(file, 'utf8'), file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const stored = new Map<string, number>();
+    for (const log of existing) stored.set(entryKey(log), (stored.get(entryKey(log)) ?? 0) + 1);
+    const fresh = logs.filter((log) => {
+      const count = stored.get(entryKey(log)) ?? 0;
+      if (count > 0) stored.set(entryKey(log), count - 1);
+      return count === 0;
+    });
+
+    if (fresh.length > 0) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, fresh.map((log) => JSON.stringify(log)).join('\n') + '\n');
+    }
+    return { added: fresh.length, duplicates: logs.length - fresh.length };
+  });
+  writeQueue = write.catch(() => {});
+  return write;
+}
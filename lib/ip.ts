@@ -0,0 +1,133 @@
+// IPv4/IPv6 parsing into byte arrays, for prefix and CIDR comparisons
+
+export type IPVersion = 4 | 6;
+
+export interface ParsedIP {
+  version: IPVersion;
+  bytes: number[];
+}
+
+export interface CIDR {
+  version: IPVersion;
+  bytes: number[];
+  prefix: number;
+}
+
+function parseIPv4(ip: string): number[] | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : null;
+}
+
+function parseIPv6(ip: string): number[] | null {
+  // Strip any zone index, e.g. fe80::1%eth0
+  let address = ip.split('%')[0];
+
+  // An embedded IPv4 tail (::ffff:1.2.3.4) becomes two hextets
+  const lastColon = address.lastIndexOf(':');
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const v4 = parseIPv4(tail);
+    if (!v4) return null;
+    address = `${address.slice(0, lastColon + 1)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const parseGroups = (part: string) => (part ? part.split(':') : []);
+  const head = parseGroups(halves[0]);
+  const rest = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  const bytes: number[] = [];
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  }
+  return bytes;
+}
+
+export function parseIP(ip: string): ParsedIP | null {
+  if (ip.includes(':')) {
+    const bytes = parseIPv6(ip);
+    return bytes ? { version: 6, bytes } : null;
+  }
+  const bytes = parseIPv4(ip);
+  return bytes ? { version: 4, bytes } : null;
+}
+
+export function parseCIDR(cidr: string): CIDR | null {
+  const [address, prefixText, ...extra] = cidr.split('/');
+  if (extra.length > 0 || prefixText === undefined || !/^\d{1,3}$/.test(prefixText)) return null;
+
+  const ip = parseIP(address);
+  if (!ip) return null;
+
+  const prefix = Number(prefixText);
+  if (prefix > ip.bytes.length * 8) return null;
+
+  return { ...ip, prefix };
+}
+
+// Zero every bit past `prefix`
+export function maskBytes(bytes: number[], prefix: number): number[] {
+  return bytes.map((byte, i) => {
+    const bits = Math.min(8, Math.max(0, prefix - i * 8));
+    return bits === 0 ? 0 : byte & (0xff << (8 - bits)) & 0xff;
+  });
+}
+
+// Truncated addresses (203.0.113.0/24) match when their whole network falls inside the range
+export function ipInCIDR(ip: string, cidr: CIDR): boolean {
+  const [address, networkPrefix] = ip.split('/');
+  if (networkPrefix !== undefined && Number(networkPrefix) < cidr.prefix) return false;
+
+  const parsed = parseIP(address);
+  if (!parsed || parsed.version !== cidr.version) return false;
+
+  const masked = maskBytes(parsed.bytes, cidr.prefix);
+  const network = maskBytes(cidr.bytes, cidr.prefix);
+  return masked.every((byte, i) => byte === network[i]);
+}
+
+export function formatIP({ version, bytes }: ParsedIP): string {
+  if (version === 4) return bytes.join('.');
+
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+
+  // Compress the longest run of two or more zero groups
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8;) {
+    let j = i;
+    while (j < 8 && groups[j] === '0') j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j === i ? i + 1 : j;
+  }
+  if (bestStart === -1) return groups.join(':');
+
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+// Replace an address with its network, e.g. 203.0.113.7 -> 203.0.113.0/24
+export function truncateIP(ip: string, ipv4Prefix: number, ipv6Prefix: number): string | null {
+  const parsed = parseIP(ip);
+  if (!parsed) return null;
+
+  const prefix = parsed.version === 4 ? ipv4Prefix : ipv6Prefix;
+  return `${formatIP({ ...parsed, bytes: maskBytes(parsed.bytes, prefix) })}/${prefix}`;
+}
@@ -0,0 +1,46 @@
+import { parseISO, isValid } from 'date-fns';
+import { LogEntry, LogRange } from './types';
+
+export const LIVE_POLL_INTERVAL = 15000;
+
+function entryKey(log: LogEntry): string {
+  return `${log.timestamp}|${log.ip}|${log.country}|${log.region}|${log.city}|${log.org}`;
+}
+
+// Latest timestamp in the logs, or '' when there are none
+export function latestTimestamp(logs: LogEntry[]): string {
+  let latest = '';
+  let latestTime = -Infinity;
+  for (const log of logs) {
+    const time = parseISO(log.timestamp).getTime();
+    if (time > latestTime) {
+      latest = log.timestamp;
+      latestTime = time;
+    }
+  }
+  return latest;
+}
+
+// Entries at or after `since`, so ones sharing the last seen timestamp that arrived after the
+// previous poll are included; everything when `since` is empty
+export function rangeSince(since: string): LogRange {
+  return since ? { start: parseISO(since).getTime() } : {};
+}
+
+export function isValidTimestamp(value: string): boolean {
+  return isValid(parseISO(value));
+}
+
+// The incoming entries not already present, in arrival order. Each incoming entry cancels out one
+// identical entry already held, so genuine repeats (same IP within a second) are kept.
+export function newEntries(existing: LogEntry[], incoming: LogEntry[]): LogEntry[] {
+  const held = new Map<string, number>();
+  for (const log of existing) held.set(entryKey(log), (held.get(entryKey(log)) ?? 0) + 1);
+
+  return incoming.filter((log) => {
+    const key = entryKey(log);
+    const count = held.get(key) ?? 0;
+    if (count > 0) held.set(key, count - 1);
+    return count === 0;
+  });
+}
@@ -0,0 +1,303 @@
+import { isValid, parseISO } from 'date-fns';
+import { LogEntry, LogRange, SortField, SortKey, SORT_FIELDS, DEFAULT_SORT, parseSort, formatSort, visitorKey } from './types';
+import { compileSearchQuery, validateSearchQuery } from './searchQuery';
+import { isDatacenterTraffic } from './orgs';
+import { FacetFilter, filterByFacets, formatFacet, parseFacet } from './facets';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, dayBounds } from './timezone';
+
+export interface LogQuery {
+  search: string;
+  startDate: string;
+  endDate: string;
+  uniqueIPsOnly: boolean;
+  excludeDatacenters: boolean;
+  facets: FacetFilter[];
+  // IANA zone that dates and day boundaries are interpreted in
+  timeZone: string;
+  sort: SortKey[];
+  page: number;
+  pageSize: number;
+  // Opaque position from a previous result's nextCursor; takes precedence over page
+  cursor: string | null;
+}
+
+export interface LogQueryResult {
+  items: LogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  // Continues right after the last item, even if rows were added in between; null on the last page
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 10000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class LogQueryError extends Error {}
+
+// Parse query parameters from the /api/logs route, throwing on invalid values
+export function parseLogQuery(params: URLSearchParams): LogQuery {
+  let sort: SortKey[];
+  const sortParam = params.get('sort');
+  if (sortParam) {
+    const parsed = parseSort(sortParam);
+    if (!parsed) {
+      throw new LogQueryError(`Invalid sort: ${sortParam}`);
+    }
+    sort = parsed;
+  } else {
+    // Single-column form kept for existing links and scripts
+    const sortField = params.get('sortField') || 'timestamp';
+    if (!SORT_FIELDS.includes(sortField as SortField)) {
+      throw new LogQueryError(`Invalid sortField: ${sortField}`);
+    }
+
+    const sortDirection = params.get('sortDirection') || 'desc';
+    if (sortDirection !== 'asc' && sortDirection !== 'desc') {
+      throw new LogQueryError(`Invalid sortDirection: ${sortDirection}`);
+    }
+    sort = [{ field: sortField as SortField, direction: sortDirection }];
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor !== null && !decodeCursor(cursor)) {
+    throw new LogQueryError('Invalid cursor');
+  }
+
+  const timeZone = params.get('timeZone') || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    throw new LogQueryError(`Invalid timeZone: ${timeZone}`);
+  }
+
+  const startDate = params.get('startDate') || '';
+  const endDate = params.get('endDate') || '';
+  for (const [name, value] of [['startDate', startDate], ['endDate', endDate]]) {
+    if (value && (!DATE_PATTERN.test(value) || !isValid(parseISO(value)))) {
+      throw new LogQueryError(`Invalid ${name}: expected yyyy-MM-dd`);
+    }
+  }
+
+  const page = Number(params.get('page') || 1);
+  if (!Number.isInteger(page) || page < 1) {
+    throw new LogQueryError(`Invalid page: ${params.get('page')}`);
+  }
+
+  const pageSize = Number(params.get('pageSize') || DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new LogQueryError(`Invalid pageSize: must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const search = params.get('search') || '';
+  const searchError = validateSearchQuery(search);
+  if (searchError) {
+    throw new LogQueryError(`Invalid search: ${searchError.message}`);
+  }
+
+  const facets: FacetFilter[] = [];
+  for (const value of params.getAll('facet')) {
+    const facet = parseFacet(value);
+    if (!facet) {
+      throw new LogQueryError(`Invalid facet: ${value}`);
+    }
+    facets.push(facet);
+  }
+
+  const uniqueIPsOnly = params.get('uniqueIPsOnly');
+  const excludeDatacenters = params.get('excludeDatacenters');
+
+  return {
+    search,
+    startDate,
+    endDate,
+    uniqueIPsOnly: uniqueIPsOnly === 'true' || uniqueIPsOnly === '1',
+    excludeDatacenters: excludeDatacenters === 'true' || excludeDatacenters === '1',
+    facets,
+    timeZone,
+    sort,
+    page,
+    pageSize,
+    cursor,
+  };
+}
+
+// Build the query string the dashboard sends to /api/logs
+export function toSearchParams(query: LogQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.search) params.set('search', query.search);
+  if (query.startDate) params.set('startDate', query.startDate);
+  if (query.endDate) params.set('endDate', query.endDate);
+  if (query.uniqueIPsOnly) params.set('uniqueIPsOnly', 'true');
+  if (query.excludeDatacenters) params.set('excludeDatacenters', 'true');
+  for (const facet of query.facets) params.append('facet', formatFacet(facet));
+  if (query.timeZone !== DEFAULT_TIME_ZONE) params.set('timeZone', query.timeZone);
+  params.set('sort', formatSort(query.sort));
+  if (query.cursor) {
+    params.set('cursor', query.cursor);
+  } else {
+    params.set('page', String(query.page));
+  }
+  params.set('pageSize', String(query.pageSize));
+  return params;
+}
+
+export type LogFilters = Pick<LogQuery, 'search' | 'startDate' | 'endDate' | 'uniqueIPsOnly' | 'excludeDatacenters' | 'facets' | 'timeZone'>;
+
+// Instants covered by the date filter: whole days in the selected zone, or everything unless both dates are set
+export function dateRange({ startDate, endDate, timeZone }: Pick<LogFilters, 'startDate' | 'endDate' | 'timeZone'>): LogRange {
+  if (!startDate || !endDate) return {};
+  return { start: dayBounds(startDate, timeZone).start, end: dayBounds(endDate, timeZone).end };
+}
+
+export function filterLogs(
+  logs: LogEntry[],
+  { search, startDate, endDate, uniqueIPsOnly, excludeDatacenters, facets, timeZone }: LogFilters
+): LogEntry[] {
+  let filtered = filterByFacets(logs.filter(compileSearchQuery(search, timeZone)), facets);
+
+  // Drop hosting/datacenter traffic (cloud providers, crawlers) if requested
+  if (excludeDatacenters) {
+    filtered = filtered.filter((log) => !isDatacenterTraffic(log));
+  }
+
+  // Apply date range filter if dates are selected, with whole days in the selected zone
+  if (startDate && endDate) {
+    const { start } = dayBounds(startDate, timeZone);
+    const { end } = dayBounds(endDate, timeZone);
+
+    filtered = filtered.filter((log) => {
+      const time = parseISO(log.timestamp).getTime();
+      return time >= start && time <= end;
+    });
+  }
+
+  // Apply unique IPs filter if enabled
+  if (uniqueIPsOnly) {
+    const seenIPs = new Set<string>();
+    filtered = filtered.filter((log) => {
+      if (seenIPs.has(visitorKey(log))) {
+        return false;
+      }
+      seenIPs.add(visitorKey(log));
+      return true;
+    });
+  }
+
+  return filtered;
+}
+
+function compareField(a: LogEntry, b: LogEntry, field: SortField): number {
+  if (field === 'timestamp') {
+    return parseISO(a.timestamp).getTime() - parseISO(b.timestamp).getTime();
+  }
+  return compareText(a[field], b[field]);
+}
+
+// Code point order, as SQLite compares UTF-8 text. Plain < compares UTF-16 code units, which puts
+// characters above U+FFFF (emoji, some CJK) before U+E000–U+FFFF.
+function compareText(a: string, b: string): number {
+  if (a === b) return 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const x = a.charCodeAt(i);
+    const y = b.charCodeAt(i);
+    if (x === y) continue;
+    const xSurrogate = x >= 0xd800 && x <= 0xdfff;
+    const ySurrogate = y >= 0xd800 && y <= 0xdfff;
+    if (xSurrogate !== ySurrogate) return xSurrogate ? 1 : -1;
+    return x - y;
+  }
+  return a.length - b.length;
+}
+
+// Compare by each sort key in turn, then by the remaining fields so the order is total and cursors are stable.
+// Timestamps compare as instants, so one instant written with different offsets falls back to the text.
+function compareLogs(sort: SortKey[]) {
+  const keys = [
+    ...sort,
+    ...SORT_FIELDS.filter((field) => !sort.some((key) => key.field === field)).map((field) => ({ field, direction: 'asc' as const })),
+  ];
+
+  return (a: LogEntry, b: LogEntry) => {
+    for (const { field, direction } of keys) {
+      const result = compareField(a, b, field);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return compareText(a.timestamp, b.timestamp);
+  };
+}
+
+export function sortLogs(logs: LogEntry[], sort: SortKey[] = DEFAULT_SORT): LogEntry[] {
+  return [...logs].sort(compareLogs(sort));
+}
+
+// A cursor carries the sortable fields of the last row served, so the next page starts right after it
+// wherever it now sits in the sorted results
+function encodeCursor(log: LogEntry): string {
+  return Buffer.from(JSON.stringify(SORT_FIELDS.map((field) => log[field]))).toString('base64url');
+}
+
+function decodeCursor(cursor: string): LogEntry | null {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (!Array.isArray(values) || values.length !== SORT_FIELDS.length || !values.every((value) => typeof value === 'string')) {
+      return null;
+    }
+    return Object.fromEntries(SORT_FIELDS.map((field, i) => [field, values[i]])) as unknown as LogEntry;
+  } catch {
+    return null;
+  }
+}
+
+// Whether a page can come straight from a sorted source: only the date filter applies and the page is
+// addressed by number
+export function isPlainPageQuery(query: LogQuery): boolean {
+  return !query.search && !query.uniqueIPsOnly && !query.excludeDatacenters && query.facets.length === 0 && !query.cursor;
+}
+
+// Result for a page a source already sorted and sliced, out of `total` matching entries
+export function pageResult(items: LogEntry[], total: number, query: LogQuery): LogQueryResult {
+  const startIndex = (query.page - 1) * query.pageSize;
+  return {
+    items,
+    total,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.ceil(total / query.pageSize),
+    nextCursor: startIndex + query.pageSize < total && items.length > 0 ? encodeCursor(items[items.length - 1]) : null,
+  };
+}
+
+export function queryLogs(logs: LogEntry[], query: LogQuery): LogQueryResult {
+  const filtered = filterLogs(logs, query);
+  const compare = compareLogs(query.sort);
+  const sorted = [...filtered].sort(compare);
+
+  let startIndex = (query.page - 1) * query.pageSize;
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  if (after) {
+    // Binary search for the first row that sorts after the cursor
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (compare(sorted[mid], after) <= 0) lo = mid + 1;
+      else hi = mid;
+    }
+    startIndex = lo;
+  }
+
+  const items = sorted.slice(startIndex, startIndex + query.pageSize);
+  const hasMore = startIndex + query.pageSize < sorted.length;
+
+  return {
+    items,
+    total: filtered.length,
+    page: Math.floor(startIndex / query.pageSize) + 1,
+    pageSize: query.pageSize,
+    totalPages: Math.ceil(filtered.length / query.pageSize),
+    nextCursor: hasMore && items.length > 0 ? encodeCursor(items[items.length - 1]) : null,
+  };
+}
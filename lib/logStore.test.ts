@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LogEntry, SortKey, StatsData } from './types';
+import { LogStore, openLogStore } from './logStore';
+import { sortLogs } from './logQuery';
+import { computeStats } from './stats';
+import { createMemoryDataSource } from './dataSource/memory';
+import { createStoredDataSource } from './dataSource/stored';
+
+const HOUR = 60 * 60 * 1000;
+
+function log(timestamp: string, ip: string, country = 'US'): LogEntry {
+  return { timestamp, ip, country, region: '', city: '', org: 'AS7922 Comcast Cable Communications, LLC' };
+}
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * HOUR).toISOString();
+}
+
+let store: LogStore;
+
+beforeEach(() => {
+  store = openLogStore(':memory:');
+});
+
+afterEach(() => {
+  store.close();
+});
+
+describe('first sync', () => {
+  it('takes the totals and first-seen visitors the source saw before its logs begin', async () => {
+    const logs = [log(hoursAgo(2), '10.0.0.1', 'US'), log(hoursAgo(1), '10.0.0.2', 'FR')];
+    const day = logs[0].timestamp.slice(0, 10);
+    const earlier = Array.from({ length: 898 }, (_, i) => `192.0.2.${i}`);
+    const upstream: StatsData = {
+      total_hits: 50000,
+      unique_ips: [...earlier, '10.0.0.1', '10.0.0.2'],
+      unique_countries: ['US', 'FR', 'DE', 'JP'],
+      daily_stats: { [day]: { new_hits: 2, new_unique_ips: ['10.0.0.2'], new_unique_countries: ['FR'] } },
+      last_processed_timestamp: logs[1].timestamp,
+    };
+
+    const stats = await createStoredDataSource(createMemoryDataSource(logs, upstream), store).getStats();
+    expect(stats.total_hits).toBe(50000);
+    expect(stats.unique_ips).toHaveLength(900);
+    expect(stats.unique_countries).toHaveLength(4);
+    // Seen before the source's daily stats, so not new on the day of its first stored entry
+    expect(stats.daily_stats[day].new_unique_ips).toEqual(['10.0.0.2']);
+    expect(stats.daily_stats[day].new_unique_countries).toEqual(['FR']);
+  });
+
+  it('counts stored entries on days the source has no stats for', async () => {
+    const logs = [log(hoursAgo(2), '10.0.0.1'), log(hoursAgo(1), '10.0.0.1')];
+    const stats = await createStoredDataSource(createMemoryDataSource(logs), store).getStats();
+    expect(stats).toEqual(computeStats(logs));
+  });
+});
+
+describe('later syncs', () => {
+  it('pick up entries that reach the source after newer ones were stored', async () => {
+    const logs = [log(hoursAgo(3), '10.0.0.1'), log(hoursAgo(1), '10.0.0.2')];
+    const upstream = computeStats(logs);
+    const dataSource = createStoredDataSource(createMemoryDataSource(logs, upstream), store, { syncIntervalMs: 0 });
+    expect(await dataSource.getLogs()).toHaveLength(2);
+
+    logs.push(log(hoursAgo(2), '10.0.0.3'));
+    upstream.last_processed_timestamp = new Date().toISOString();
+    expect((await dataSource.getLogs()).map((entry) => entry.ip)).toEqual(['10.0.0.1', '10.0.0.3', '10.0.0.2']);
+    expect((await dataSource.getStats()).total_hits).toBe(3);
+  });
+
+  it('do not count entries again', async () => {
+    const logs = [log(hoursAgo(1), '10.0.0.1'), log(hoursAgo(1), '10.0.0.1')];
+    const dataSource = createStoredDataSource(createMemoryDataSource(logs), store, { syncIntervalMs: 0 });
+    await dataSource.getLogs();
+    logs.push(log(hoursAgo(0), '10.0.0.2'));
+
+    expect(await dataSource.getLogs()).toHaveLength(3);
+    expect((await dataSource.getStats()).total_hits).toBe(3);
+  });
+});
+
+describe('queries', () => {
+  const logs = [
+    log('2025-08-01T10:00:00Z', '9.9.9.9', 'US'),
+    log('2025-08-01T10:00:00Z', '1.1.1.1', 'DE'),
+    log('2025-08-02T10:00:00Z', '1.1.1.1', 'FR'),
+    log('2025-08-03T10:00:00Z', '5.5.5.5', 'US'),
+  ];
+
+  it('return the entries within a range', () => {
+    store.insertLogs(logs);
+    const start = Date.parse('2025-08-01T10:00:00Z');
+    const end = Date.parse('2025-08-02T10:00:00Z');
+    expect(store.logs({ start, end })).toHaveLength(3);
+    expect(store.logs({ start: end + 1 })).toEqual([logs[3]]);
+  });
+
+  it('page in the same order as sortLogs', () => {
+    store.insertLogs(logs);
+    const sorts: SortKey[][] = [
+      [{ field: 'timestamp', direction: 'desc' }],
+      [{ field: 'ip', direction: 'asc' }, { field: 'timestamp', direction: 'desc' }],
+      [{ field: 'country', direction: 'desc' }],
+    ];
+    for (const sort of sorts) {
+      const sorted = sortLogs(logs, sort);
+      expect(store.page({}, sort, 0, 2)).toEqual({ items: sorted.slice(0, 2), total: 4 });
+      expect(store.page({}, sort, 2, 2)).toEqual({ items: sorted.slice(2), total: 4 });
+    }
+  });
+
+  it('page in the same order as sortLogs for offsets and text outside ASCII', () => {
+    const mixed = [
+      log('2025-08-01T12:00:00+02:00', '1.1.1.1', 'DE'),
+      log('2025-08-01T10:00:00Z', '1.1.1.1', 'DE'),
+      log('2025-08-01T06:00:00-04:00', '1.1.1.1', 'DE'),
+      { ...log('2025-08-01T09:00:00Z', '2.2.2.2'), city: '\u{1F600}' },
+      { ...log('2025-08-01T09:00:00Z', '3.3.3.3'), city: 'Ａ' },
+      { ...log('2025-08-01T09:00:00Z', '4.4.4.4'), city: 'Zürich' },
+      { ...log('2025-08-01T09:00:00Z', '5.5.5.5'), city: 'Zurich' },
+    ];
+    store.insertLogs(mixed);
+    const sorts: SortKey[][] = [
+      [{ field: 'timestamp', direction: 'desc' }],
+      [{ field: 'timestamp', direction: 'asc' }],
+      [{ field: 'city', direction: 'asc' }],
+      [{ field: 'city', direction: 'desc' }],
+    ];
+    for (const sort of sorts) {
+      expect(store.page({}, sort, 0, mixed.length).items).toEqual(sortLogs(mixed, sort));
+    }
+  });
+});
+
+describe('stats', () => {
+  it('count hits on their UTC day', () => {
+    const logs = [log('2025-08-01T23:30:00-02:00', '1.1.1.1', 'US'), log('2025-08-02T00:30:00+02:00', '2.2.2.2', 'DE')];
+    store.insertLogs(logs);
+    const expected = {
+      '2025-08-01': { new_hits: 1, new_unique_ips: ['2.2.2.2'], new_unique_countries: ['DE'] },
+      '2025-08-02': { new_hits: 1, new_unique_ips: ['1.1.1.1'], new_unique_countries: ['US'] },
+    };
+    expect(store.stats().daily_stats).toEqual(expected);
+    expect(computeStats(logs).daily_stats).toEqual(expected);
+  });
+});
@@ -0,0 +1,253 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { subDays } from 'date-fns';
+import { LogEntry, LogRange, SORT_FIELDS, SortField, SortKey, StatsData } from './types';
+import { dayInZone } from './timezone';
+
+// SQLite history of log entries, kept beyond the upstream API's rolling window.
+// Raw entries are pruned after the retention period; the daily aggregates and first-seen
+// visitors and countries behind StatsData are kept forever.
+
+export interface LogStore {
+  // Adds the entries not stored yet; returns how many were new
+  insertLogs(logs: LogEntry[]): number;
+  // Folds a source's all-time stats into the stored aggregates
+  mergeStats(stats: StatsData): void;
+  logs(range?: LogRange): LogEntry[];
+  page(range: LogRange, sort: SortKey[], offset: number, limit: number): { items: LogEntry[]; total: number };
+  stats(): StatsData;
+  // Latest stored timestamp, or '' when empty
+  latestTimestamp(): string;
+  getState(key: string): string | null;
+  setState(key: string, value: string): void;
+  // Deletes raw entries older than `days` days; returns how many were removed
+  prune(days: number, now?: Date): number;
+  close(): void;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS logs (
+    id INTEGER PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    time INTEGER NOT NULL,
+    ip TEXT NOT NULL,
+    visitor TEXT,
+    country TEXT NOT NULL,
+    region TEXT NOT NULL,
+    city TEXT NOT NULL,
+    org TEXT NOT NULL,
+    -- Tells apart identical entries, e.g. two hits from one IP within a second
+    seq INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS logs_identity ON logs (timestamp, ip, country, region, city, org, seq);
+  CREATE INDEX IF NOT EXISTS logs_time ON logs (time);
+
+  -- hits counts stored entries, reported_hits is the source's own figure; the larger one wins
+  CREATE TABLE IF NOT EXISTS daily_stats (
+    day TEXT PRIMARY KEY,
+    hits INTEGER NOT NULL DEFAULT 0,
+    reported_hits INTEGER NOT NULL DEFAULT 0
+  );
+  -- A null day means first seen before the stored history
+  CREATE TABLE IF NOT EXISTS first_seen_ips (
+    ip TEXT PRIMARY KEY,
+    day TEXT
+  );
+  CREATE TABLE IF NOT EXISTS first_seen_countries (
+    country TEXT PRIMARY KEY,
+    day TEXT
+  );
+  CREATE TABLE IF NOT EXISTS state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+const REPORTED_TOTAL = 'reported_total_hits';
+
+const SORT_COLUMNS: Record<SortField, string> = {
+  timestamp: 'time',
+  ip: 'ip',
+  country: 'country',
+  region: 'region',
+  city: 'city',
+  org: 'org',
+};
+
+// Same order as sortLogs: each key in turn, then the remaining fields ascending, then the timestamp
+// text. SQLite's BINARY collation compares UTF-8 bytes, which is the code point order sortLogs uses.
+function orderBy(sort: SortKey[]): string {
+  const keys = [
+    ...sort,
+    ...SORT_FIELDS.filter((field) => !sort.some((key) => key.field === field)).map((field) => ({ field, direction: 'asc' })),
+  ];
+  const columns = keys.map(({ field, direction }) => `${SORT_COLUMNS[field]} ${direction === 'desc' ? 'DESC' : 'ASC'}`);
+  return [...columns, 'timestamp ASC'].join(', ');
+}
+
+function identity(log: LogEntry): string {
+  return `${log.timestamp}|${log.ip}|${log.country}|${log.region}|${log.city}|${log.org}`;
+}
+
+type LogRow = LogEntry & { visitor: string | null };
+
+function toEntry({ visitor, ...log }: LogRow): LogEntry {
+  return visitor === null ? log : { ...log, visitor };
+}
+
+export function openLogStore(file: string): LogStore {
+  if (file !== ':memory:') mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const insertLog = db.prepare(`
+    INSERT OR IGNORE INTO logs (timestamp, time, ip, visitor, country, region, city, org, seq)
+    VALUES (@timestamp, @time, @ip, @visitor, @country, @region, @city, @org, @seq)
+  `);
+  const countHit = db.prepare(`
+    INSERT INTO daily_stats (day, hits) VALUES (?, 1)
+    ON CONFLICT (day) DO UPDATE SET hits = hits + 1
+  `);
+  const reportHits = db.prepare(`
+    INSERT INTO daily_stats (day, reported_hits) VALUES (?, ?)
+    ON CONFLICT (day) DO UPDATE SET reported_hits = excluded.reported_hits
+  `);
+  // Entries may arrive out of order, so first-seen days move earlier when an older entry shows up.
+  // A null day already comes before any other, so it is never replaced.
+  const seeIp = db.prepare(`
+    INSERT INTO first_seen_ips (ip, day) VALUES (?, ?)
+    ON CONFLICT (ip) DO UPDATE SET day = excluded.day WHERE day IS NOT NULL AND excluded.day < day
+  `);
+  const seeCountry = db.prepare(`
+    INSERT INTO first_seen_countries (country, day) VALUES (?, ?)
+    ON CONFLICT (country) DO UPDATE SET day = excluded.day WHERE day IS NOT NULL AND excluded.day < day
+  `);
+  const seeIpEarlier = db.prepare('INSERT OR IGNORE INTO first_seen_ips (ip, day) VALUES (?, NULL)');
+  const seeCountryEarlier = db.prepare('INSERT OR IGNORE INTO first_seen_countries (country, day) VALUES (?, NULL)');
+  const selectState = db.prepare('SELECT value FROM state WHERE key = ?').pluck();
+  const upsertState = db.prepare('INSERT INTO state (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value');
+
+  // Identical entries are numbered in order, so re-inserting an overlapping batch adds only the
+  // occurrences beyond those already stored
+  const insertLogs = db.transaction((logs: LogEntry[]) => {
+    const occurrences = new Map<string, number>();
+    let added = 0;
+    for (const log of logs) {
+      const key = identity(log);
+      const seq = occurrences.get(key) ?? 0;
+      occurrences.set(key, seq + 1);
+
+      const { changes } = insertLog.run({
+        timestamp: log.timestamp,
+        time: Date.parse(log.timestamp),
+        ip: log.ip,
+        visitor: log.visitor ?? null,
+        country: log.country,
+        region: log.region,
+        city: log.city,
+        org: log.org,
+        seq,
+      });
+      if (changes === 0) continue;
+
+      added++;
+      // Stats days are UTC calendar days, as in computeStats
+      const day = dayInZone(log.timestamp, 'UTC');
+      countHit.run(day);
+      seeIp.run(log.ip, day);
+      seeCountry.run(log.country, day);
+    }
+    return added;
+  });
+
+  // Visitors and countries the source lists without a day were first seen before its daily stats
+  // begin. Unless the store already knows when, that is recorded as before the stored history too.
+  const mergeStats = db.transaction((stats: StatsData) => {
+    const total = Number(selectState.get(REPORTED_TOTAL) ?? 0);
+    upsertState.run(REPORTED_TOTAL, String(Math.max(total, stats.total_hits)));
+
+    const datedIps = new Set<string>();
+    const datedCountries = new Set<string>();
+    for (const [day, daily] of Object.entries(stats.daily_stats)) {
+      reportHits.run(day, daily.new_hits);
+      for (const ip of daily.new_unique_ips) {
+        seeIp.run(ip, day);
+        datedIps.add(ip);
+      }
+      for (const country of daily.new_unique_countries) {
+        seeCountry.run(country, day);
+        datedCountries.add(country);
+      }
+    }
+    for (const ip of stats.unique_ips) if (!datedIps.has(ip)) seeIpEarlier.run(ip);
+    for (const country of stats.unique_countries) if (!datedCountries.has(country)) seeCountryEarlier.run(country);
+  });
+
+  const columns = 'timestamp, ip, visitor, country, region, city, org';
+  const inRange = 'time >= @start AND time <= @end';
+  const selectLogs = db.prepare(`SELECT ${columns} FROM logs WHERE ${inRange} ORDER BY time, id`);
+  const countLogs = db.prepare(`SELECT COUNT(*) FROM logs WHERE ${inRange}`).pluck();
+  const selectPages = new Map<string, Database.Statement>();
+  const selectLatest = db.prepare('SELECT timestamp FROM logs ORDER BY time DESC LIMIT 1').pluck();
+  const selectDaily = db.prepare('SELECT day, MAX(hits, reported_hits) AS hits FROM daily_stats ORDER BY day');
+  const selectIps = db.prepare('SELECT ip, day FROM first_seen_ips ORDER BY day, ip');
+  const selectCountries = db.prepare('SELECT country, day FROM first_seen_countries ORDER BY day, country');
+  const deleteBefore = db.prepare('DELETE FROM logs WHERE time < ?');
+
+  // SQLite integers cover epoch milliseconds, but not infinities
+  const bounds = ({ start, end }: LogRange) => ({ start: start ?? Number.MIN_SAFE_INTEGER, end: end ?? Number.MAX_SAFE_INTEGER });
+
+  return {
+    insertLogs: (logs) => insertLogs(logs),
+    mergeStats: (stats) => mergeStats(stats),
+
+    logs: (range = {}) => (selectLogs.all(bounds(range)) as LogRow[]).map(toEntry),
+
+    page(range, sort, offset, limit) {
+      const order = orderBy(sort);
+      let select = selectPages.get(order);
+      if (!select) {
+        select = db.prepare(`SELECT ${columns} FROM logs WHERE ${inRange} ORDER BY ${order} LIMIT @limit OFFSET @offset`);
+        selectPages.set(order, select);
+      }
+      return {
+        items: (select.all({ ...bounds(range), limit, offset }) as LogRow[]).map(toEntry),
+        total: countLogs.get(bounds(range)) as number,
+      };
+    },
+
+    stats() {
+      const daily: StatsData['daily_stats'] = {};
+      let dailyHits = 0;
+      for (const { day, hits } of selectDaily.all() as { day: string; hits: number }[]) {
+        daily[day] = { new_hits: hits, new_unique_ips: [], new_unique_countries: [] };
+        dailyHits += hits;
+      }
+      const ips = selectIps.all() as { ip: string; day: string | null }[];
+      const countries = selectCountries.all() as { country: string; day: string | null }[];
+      for (const { ip, day } of ips) if (day) daily[day]?.new_unique_ips.push(ip);
+      for (const { country, day } of countries) if (day) daily[day]?.new_unique_countries.push(country);
+
+      return {
+        // The source's total also counts hits from before its daily stats begin
+        total_hits: Math.max(dailyHits, Number(selectState.get(REPORTED_TOTAL) ?? 0)),
+        unique_ips: ips.map(({ ip }) => ip),
+        unique_countries: countries.map(({ country }) => country),
+        daily_stats: daily,
+        last_processed_timestamp: (selectState.get('last_processed_timestamp') as string | undefined)
+          ?? (selectLatest.get() as string | undefined)
+          ?? '',
+      };
+    },
+
+    latestTimestamp: () => (selectLatest.get() as string | undefined) ?? '',
+    getState: (key) => (selectState.get(key) as string | undefined) ?? null,
+    setState: (key, value) => {
+      upsertState.run(key, value);
+    },
+    prune: (days, now = new Date()) => deleteBefore.run(subDays(now, days).getTime()).changes,
+    close: () => db.close(),
+  };
+}
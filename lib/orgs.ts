@@ -0,0 +1,109 @@
+import { LogEntry, visitorKey } from './types';
+
+export type OrgCategory = 'hosting' | 'isp' | 'education' | 'healthcare' | 'unknown';
+
+export const ORG_CATEGORIES: { key: OrgCategory; label: string; color: string }[] = [
+  { key: 'hosting', label: 'Hosting / Datacenter', color: '#EF4444' },
+  { key: 'isp', label: 'ISP', color: '#3B82F6' },
+  { key: 'education', label: 'Education', color: '#F59E0B' },
+  { key: 'healthcare', label: 'Healthcare', color: '#10B981' },
+  { key: 'unknown', label: 'Unknown', color: '#9CA3AF' },
+];
+
+export interface OrgMetric {
+  org: string;
+  asn: string | null;
+  category: OrgCategory;
+  hits: number;
+  uniqueIPs: number;
+}
+
+// First matching rule wins, so the more specific categories come first
+const RULES: { category: OrgCategory; pattern: RegExp }[] = [
+  {
+    category: 'healthcare',
+    pattern: /hospital|clinic|health|medical|medicine|\bNHS\b|klinik|krankenhaus|hôpital|hopital|pharma|kaiser|mayo/i,
+  },
+  {
+    category: 'education',
+    pattern: /universit|college|school|academ|\bedu\b|institute of technology|polytechnic|research and education|\bJANET\b|\bjisc\b/i,
+  },
+  {
+    category: 'hosting',
+    pattern: new RegExp([
+      'amazon', '\\baws\\b', 'google', 'microsoft', 'azure', 'digitalocean', 'linode', 'akamai', '\\bovh',
+      'hetzner', 'cloudflare', 'oracle', 'alibaba', 'tencent', 'vultr', 'choopa', 'leaseweb', 'contabo',
+      'scaleway', 'fastly', '\\bm247\\b', 'facebook', 'meta platforms', 'datacamp', 'hostinger', 'godaddy',
+      'ionos', 'rackspace', 'softlayer', 'ibm cloud', 'hosting', 'host\\b', 'data ?cent(er|re)', 'server',
+      'cloud', '\\bcolo', '\\bvps\\b', 'dedicated', 'crawler', '\\bbot\\b', 'spider',
+    ].join('|'), 'i'),
+  },
+  {
+    category: 'isp',
+    pattern: new RegExp([
+      'telecom', 'telekom', 'communications?', 'broadband', 'cable', 'wireless', 'mobile', 'cellular',
+      'internet', '\\bisp\\b', 'verizon', 'comcast', 'at&t', 'charter', 'spectrum', 'vodafone', 'orange',
+      'jio', 'airtel', 'telefonica', 'telefônica', 'telecomunica', 'british telecommunications', '\\bbt\\b',
+      'deutsche telekom', 't-mobile', 'sprint', '\\bcox\\b', 'centurylink', 'lumen', 'frontier', 'rogers',
+      'bell canada', 'telus', 'shaw', 'claro', '\\bvivo\\b', '\\btim\\b', '\\bmtn\\b', 'safaricom', '\\bglo\\b',
+      '\\bntt\\b', 'kddi', 'softbank', 'singtel', 'starhub', 'telstra', 'optus', 'china unicom', 'china telecom',
+      'china mobile', 'fibre|fiber', '\\bdsl\\b', 'net(work)?s?\\b',
+    ].join('|'), 'i'),
+  },
+];
+
+const ASN_PREFIX = /^AS(\d+)\s+/i;
+
+// ipinfo-style orgs carry the ASN up front: "AS15169 Google LLC"
+export function parseOrg(org: string): { asn: string | null; name: string } {
+  const match = ASN_PREFIX.exec(org);
+  return match ? { asn: `AS${match[1]}`, name: org.slice(match[0].length) } : { asn: null, name: org };
+}
+
+const cache = new Map<string, OrgCategory>();
+
+export function classifyOrg(org: string): OrgCategory {
+  let category = cache.get(org);
+  if (category) return category;
+
+  const { name } = parseOrg(org);
+  category = name.trim() ? RULES.find((rule) => rule.pattern.test(name))?.category ?? 'unknown' : 'unknown';
+  cache.set(org, category);
+  return category;
+}
+
+export function isDatacenterTraffic(log: LogEntry): boolean {
+  return classifyOrg(log.org) === 'hosting';
+}
+
+export function aggregateByOrg(logs: LogEntry[]): OrgMetric[] {
+  const groups = new Map<string, { hits: number; visitors: Set<string> }>();
+  for (const log of logs) {
+    let group = groups.get(log.org);
+    if (!group) {
+      group = { hits: 0, visitors: new Set() };
+      groups.set(log.org, group);
+    }
+    group.hits++;
+    group.visitors.add(visitorKey(log));
+  }
+
+  return [...groups.entries()]
+    .map(([org, { hits, visitors }]) => {
+      const { asn, name } = parseOrg(org);
+      return { org: name || 'Unknown', asn, category: classifyOrg(org), hits, uniqueIPs: visitors.size };
+    })
+    .sort((a, b) => b.hits - a.hits || a.org.localeCompare(b.org));
+}
+
+export function aggregateByCategory(orgs: OrgMetric[]): Record<OrgCategory, { hits: number; orgs: number }> {
+  const totals = Object.fromEntries(
+    ORG_CATEGORIES.map(({ key }) => [key, { hits: 0, orgs: 0 }])
+  ) as Record<OrgCategory, { hits: number; orgs: number }>;
+
+  for (const org of orgs) {
+    totals[org.category].hits += org.hits;
+    totals[org.category].orgs++;
+  }
+  return totals;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { LogEntry, visitorKey } from './types';
+import { PrivacyConfig, anonymizeLogs, logsForRole, privacyForRole, statsForRole } from './privacy';
+import { computeStats } from './stats';
+
+const logs: LogEntry[] = [
+  { timestamp: '2025-08-01T10:00:00Z', ip: '203.0.113.45', country: 'JP', region: 'Tokyo', city: 'Tokyo', org: '' },
+  { timestamp: '2025-08-01T11:00:00Z', ip: '203.0.113.99', country: 'JP', region: 'Tokyo', city: 'Tokyo', org: '' },
+  { timestamp: '2025-08-01T12:00:00Z', ip: '2001:db8:1234:5678::1', country: 'DE', region: '', city: '', org: '' },
+];
+
+const config: PrivacyConfig = { mode: 'off', ipv4Prefix: 24, ipv6Prefix: 48, key: 'test-key' };
+
+describe('logsForRole', () => {
+  it('leaves IPs as they are for admins', () => {
+    expect(logsForRole(logs, 'admin')).toEqual(logs);
+  });
+
+  it('masks IPs for viewers and signed-out requests', () => {
+    for (const role of ['viewer', null] as const) {
+      const masked = logsForRole(logs, role);
+      expect(masked.map((log) => log.ip)).toEqual(['203.0.113.0/24', '203.0.113.0/24', '2001:db8:1234::/48']);
+      expect(masked.map(({ ip, visitor, ...rest }) => rest)).toEqual(logs.map(({ ip, ...rest }) => rest));
+    }
+  });
+
+  it('keeps visitors apart after truncation', () => {
+    const masked = logsForRole(logs, 'viewer');
+    expect(new Set(masked.map(visitorKey)).size).toBe(3);
+    expect(masked.every((log) => !log.visitor?.includes('203.0.113'))).toBe(true);
+  });
+});
+
+describe('privacyForRole', () => {
+  it('raises viewers to truncation but keeps a stricter mode', () => {
+    expect(privacyForRole('viewer', config).mode).toBe('truncate');
+    expect(privacyForRole('admin', config).mode).toBe('off');
+    expect(privacyForRole('viewer', { ...config, mode: 'hash' }).mode).toBe('hash');
+    expect(privacyForRole('admin', { ...config, mode: 'hash' }).mode).toBe('hash');
+  });
+});
+
+describe('anonymizeLogs', () => {
+  it('hashes IPs with the key in hash mode', () => {
+    const hashed = anonymizeLogs(logs, { ...config, mode: 'hash' });
+    expect(hashed[0].ip).toMatch(/^anon-[0-9a-f]{16}$/);
+    expect(hashed[0].ip).not.toBe(hashed[1].ip);
+    expect(anonymizeLogs(logs, { ...config, mode: 'hash', key: 'other' })[0].ip).not.toBe(hashed[0].ip);
+  });
+});
+
+describe('statsForRole', () => {
+  it('hashes IPs in stats for viewers without changing counts', () => {
+    const stats = computeStats(logs);
+    const masked = statsForRole(stats, 'viewer');
+    expect(masked.unique_ips).toHaveLength(3);
+    expect(masked.unique_ips.some((ip) => logs.some((log) => log.ip === ip))).toBe(false);
+    expect(masked.total_hits).toBe(stats.total_hits);
+    expect(statsForRole(stats, 'admin')).toEqual(stats);
+  });
+});
@@ -0,0 +1,101 @@
+import { createHmac, randomBytes } from 'crypto';
+import { LogEntry, StatsData } from './types';
+import { truncateIP } from './ip';
+import type { Role } from './auth/users';
+
+export type PrivacyMode = 'off' | 'truncate' | 'hash';
+
+export const PRIVACY_MODES: PrivacyMode[] = ['off', 'truncate', 'hash'];
+
+export interface PrivacyConfig {
+  mode: PrivacyMode;
+  ipv4Prefix: number;
+  ipv6Prefix: number;
+  key: string;
+}
+
+function prefixFromEnv(value: string | undefined, fallback: number, max: number): number {
+  const prefix = Number(value);
+  return value && Number.isInteger(prefix) && prefix >= 0 && prefix <= max ? prefix : fallback;
+}
+
+// PRIVACY_MODE applies to everyone; viewers always get at least truncated IPs.
+// Without PRIVACY_HASH_KEY a random key is used, so hashes change on restart.
+export function privacyConfigFromEnv(env: NodeJS.ProcessEnv = process.env): PrivacyConfig {
+  const mode = (env.PRIVACY_MODE || 'off') as PrivacyMode;
+  if (!PRIVACY_MODES.includes(mode)) {
+    throw new Error(`Unknown PRIVACY_MODE: ${mode}`);
+  }
+
+  return {
+    mode,
+    ipv4Prefix: prefixFromEnv(env.PRIVACY_IPV4_PREFIX, 24, 32),
+    ipv6Prefix: prefixFromEnv(env.PRIVACY_IPV6_PREFIX, 48, 128),
+    key: env.PRIVACY_HASH_KEY || randomBytes(32).toString('hex'),
+  };
+}
+
+let privacyConfig: PrivacyConfig | null = null;
+
+export function getPrivacyConfig(): PrivacyConfig {
+  return privacyConfig ??= privacyConfigFromEnv();
+}
+
+export function privacyForRole(role: Role | null, config: PrivacyConfig = getPrivacyConfig()): PrivacyConfig {
+  if (role !== 'admin' && config.mode === 'off') {
+    return { ...config, mode: 'truncate' };
+  }
+  return config;
+}
+
+function hashIP(ip: string, key: string): string {
+  return `anon-${createHmac('sha256', key).update(ip).digest('hex').slice(0, 16)}`;
+}
+
+export function anonymizeIP(ip: string, config: PrivacyConfig): string {
+  switch (config.mode) {
+    case 'off':
+      return ip;
+    case 'hash':
+      return hashIP(ip, config.key);
+    case 'truncate':
+      // Anything that doesn't parse as an IP is hashed rather than leaked
+      return truncateIP(ip, config.ipv4Prefix, config.ipv6Prefix) ?? hashIP(ip, config.key);
+  }
+}
+
+export function anonymizeLogs(logs: LogEntry[], config: PrivacyConfig): LogEntry[] {
+  if (config.mode === 'off') return logs;
+
+  return logs.map((log) => ({
+    ...log,
+    ip: anonymizeIP(log.ip, config),
+    // Truncation merges addresses, so keep a keyed hash to tell visitors apart
+    ...(config.mode === 'truncate' && { visitor: hashIP(log.ip, config.key) }),
+  }));
+}
+
+// Lists keep their length so unique-user counts are unaffected. IPs become the same keyed hashes
+// visitorKey() yields for anonymized logs, so stats can still be joined with logs per visitor.
+export function anonymizeStats(stats: StatsData, config: PrivacyConfig): StatsData {
+  if (config.mode === 'off') return stats;
+
+  return {
+    ...stats,
+    unique_ips: stats.unique_ips.map((ip) => hashIP(ip, config.key)),
+    daily_stats: Object.fromEntries(
+      Object.entries(stats.daily_stats).map(([day, daily]) => [
+        day,
+        { ...daily, new_unique_ips: daily.new_unique_ips.map((ip) => hashIP(ip, config.key)) },
+      ])
+    ),
+  };
+}
+
+export function logsForRole(logs: LogEntry[], role: Role | null): LogEntry[] {
+  return anonymizeLogs(logs, privacyForRole(role));
+}
+
+export function statsForRole(stats: StatsData, role: Role | null): StatsData {
+  return anonymizeStats(stats, privacyForRole(role));
+}
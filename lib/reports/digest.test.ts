@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { LogEntry } from '../types';
+import { DigestError, buildDigest, lastWeek, parseDigestRange } from './digest';
+import { renderDigestHtml, renderDigestText } from './render';
+import { renderDigestPdf } from './pdf';
+
+const logs: LogEntry[] = [
+  { timestamp: '2025-08-02T10:00:00Z', ip: '1.1.1.1', country: 'US', region: '', city: '', org: 'AS7922 Comcast' },
+  { timestamp: '2025-08-09T10:00:00Z', ip: '1.1.1.1', country: 'US', region: '', city: '', org: 'AS7922 Comcast' },
+  { timestamp: '2025-08-10T10:00:00Z', ip: '2.2.2.2', country: 'DE', region: '', city: '', org: 'AS3320 Deutsche Telekom AG' },
+  { timestamp: '2025-08-11T10:00:00Z', ip: '3.3.3.3', country: 'DE', region: '', city: '', org: 'AS3320 Deutsche Telekom AG' },
+];
+
+const range = { startDate: '2025-08-08', endDate: '2025-08-14' };
+const now = new Date('2025-08-15T06:00:00Z');
+
+describe('parseDigestRange', () => {
+  it('defaults to the last seven complete days', () => {
+    expect(parseDigestRange(null, null, 'UTC')).toEqual(lastWeek('UTC'));
+    expect(lastWeek('UTC', now)).toEqual(range);
+  });
+
+  it('accepts a complete range', () => {
+    expect(parseDigestRange('2025-08-01', '2025-08-31', 'UTC')).toEqual({ startDate: '2025-08-01', endDate: '2025-08-31' });
+    expect(parseDigestRange('2025-08-01', '2025-08-01', 'UTC')).toEqual({ startDate: '2025-08-01', endDate: '2025-08-01' });
+  });
+
+  it.each([
+    ['2025-08-01', null],
+    [null, '2025-08-01'],
+    ['2025-8-1', '2025-08-07'],
+    ['2025-13-45', '2025-12-31'],
+    ['2025-02-30', '2025-03-01'],
+    ['2025-08-07', '2025-08-01'],
+  ])('rejects from=%s to=%s', (from, to) => {
+    expect(() => parseDigestRange(from, to, 'UTC')).toThrow(DigestError);
+  });
+});
+
+describe('buildDigest', () => {
+  it('compares the range with the period before it', () => {
+    const digest = buildDigest(logs, null, range, 'UTC', now);
+    expect(digest.previousRange).toEqual({ startDate: '2025-08-01', endDate: '2025-08-07' });
+    expect(digest.metrics).toEqual({ totalHits: 3, uniqueCountries: 2, uniqueIPs: 3 });
+    expect(digest.deltas.totalHits).toEqual({ change: 2, percent: 200 });
+    expect(digest.topCountries).toEqual([
+      { country: 'DE', count: 2, previousCount: 0 },
+      { country: 'US', count: 1, previousCount: 1 },
+    ]);
+    expect(digest.granularity).toBe('day');
+    expect(digest.series).toHaveLength(7);
+  });
+
+  it('charts long ranges by week', () => {
+    const digest = buildDigest(logs, null, { startDate: '2025-01-01', endDate: '2025-08-14' }, 'UTC', now);
+    expect(digest.granularity).toBe('week');
+  });
+});
+
+describe('renderDigestHtml', () => {
+  it('shows the cards, ranges and top lists', () => {
+    const html = renderDigestHtml(buildDigest(logs, null, range, 'UTC', now));
+    expect(html).toContain('<title>MEDTALK API Hit Log Digest: Aug 08 - Aug 14, 2025</title>');
+    expect(html).toContain('compared with Aug 01 - Aug 07, 2025');
+    expect(html).toContain('+2 (+200.0%)');
+    expect(html).toContain('Deutsche Telekom AG');
+  });
+
+  it('escapes values from the logs', () => {
+    const digest = buildDigest([{ ...logs[1], org: 'AS1 <script>alert(1)</script>' }], null, range, 'UTC', now);
+    const html = renderDigestHtml(digest);
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&#60;script&#62;');
+    expect(renderDigestText(digest)).toContain('<script>alert(1)</script>');
+  });
+});
+
+describe('renderDigestPdf', () => {
+  it('produces a single-page PDF with a valid cross-reference table', () => {
+    const pdf = Buffer.from(renderDigestPdf(buildDigest(logs, null, range, 'UTC', now))).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf.match(/\/Type \/Page\b/g)).toHaveLength(1);
+
+    const xref = Number(/startxref\s+(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+  });
+});
@@ -0,0 +1,88 @@
+import { differenceInCalendarDays, isValid, parseISO, subDays } from 'date-fns';
+import { LogEntry, StatsData } from '../types';
+import { filterLogs } from '../logQuery';
+import { comparePeriods } from '../analytics';
+import { Delta, GlobalTotals, globalTotals } from '../growth';
+import { CountryComparison, PeriodMetrics, compareCountries, periodMetrics } from '../comparison';
+import { DateRange, Granularity, TimeSeriesPoint, buildTimeSeries, previousPeriod } from '../timeSeries';
+import { OrgMetric, aggregateByOrg } from '../orgs';
+import { DEFAULT_TIME_ZONE, dayInZone } from '../timezone';
+
+export interface Digest {
+  title: string;
+  range: DateRange;
+  previousRange: DateRange;
+  timeZone: string;
+  generatedAt: string;
+  // Same figures as the dashboard's filtered metric cards, for the range and the period before it
+  metrics: PeriodMetrics;
+  deltas: Record<keyof PeriodMetrics, Delta>;
+  totals: GlobalTotals;
+  granularity: Granularity;
+  series: TimeSeriesPoint[];
+  topCountries: CountryComparison[];
+  topOrgs: OrgMetric[];
+}
+
+export class DigestError extends Error {}
+
+export const TOP_ORGS = 10;
+
+// Longer ranges are charted by week so the chart stays readable in an email
+const MAX_DAILY_POINTS = 31;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && isValid(parseISO(value));
+}
+
+// The last seven complete days before now, the default range for a weekly digest
+export function lastWeek(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): DateRange {
+  const yesterday = subDays(now, 1);
+  return { startDate: dayInZone(subDays(now, 7), timeZone), endDate: dayInZone(yesterday, timeZone) };
+}
+
+export function parseDigestRange(from: string | null, to: string | null, timeZone: string): DateRange {
+  if (!from && !to) return lastWeek(timeZone);
+  if (!from || !to || !isDate(from) || !isDate(to)) {
+    throw new DigestError('Expected both from and to as yyyy-MM-dd');
+  }
+  if (from > to) {
+    throw new DigestError('from must not be after to');
+  }
+  return { startDate: from, endDate: to };
+}
+
+// Aggregate a digest for the range with the same helpers the dashboard uses
+export function buildDigest(
+  logs: LogEntry[],
+  stats: StatsData | null,
+  range: DateRange,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  now: Date = new Date()
+): Digest {
+  const filters = { search: '', uniqueIPsOnly: false, excludeDatacenters: false, facets: [], timeZone, ...range };
+  const current = filterLogs(logs, filters);
+  const metrics = periodMetrics(current);
+  const previousRange = previousPeriod(range);
+  const previous = filterLogs(logs, { ...filters, ...previousRange });
+  const { deltas } = comparePeriods(current, metrics, previous, previousRange);
+  const days = differenceInCalendarDays(parseISO(range.endDate), parseISO(range.startDate)) + 1;
+  const granularity: Granularity = days > MAX_DAILY_POINTS ? 'week' : 'day';
+
+  return {
+    title: 'MEDTALK API Hit Log Digest',
+    range,
+    previousRange,
+    timeZone,
+    generatedAt: now.toISOString(),
+    metrics,
+    deltas,
+    totals: globalTotals(stats),
+    granularity,
+    series: buildTimeSeries(current, range, granularity, timeZone),
+    topCountries: compareCountries(current, previous),
+    topOrgs: aggregateByOrg(current).slice(0, TOP_ORGS),
+  };
+}
@@ -0,0 +1,24 @@
+import { Digest } from './digest';
+import { digestSubject, renderDigestHtml, renderDigestText } from './render';
+import { renderDigestPdf } from './pdf';
+import { RenderedDigest } from './transports';
+
+export { buildDigest, parseDigestRange, lastWeek, DigestError } from './digest';
+export type { Digest } from './digest';
+export { renderDigestHtml, renderDigestText } from './render';
+export { renderDigestPdf } from './pdf';
+export {
+  createTransportFromEnv, createSmtpTransport, createWebhookTransport, createFileTransport, TRANSPORT_KINDS,
+} from './transports';
+export type { DigestTransport, RenderedDigest, TransportKind } from './transports';
+
+export function renderDigest(digest: Digest): RenderedDigest {
+  return {
+    subject: digestSubject(digest),
+    text: renderDigestText(digest),
+    html: renderDigestHtml(digest),
+    pdf: renderDigestPdf(digest),
+    filename: `digest-${digest.range.startDate}-to-${digest.range.endDate}`,
+    digest,
+  };
+}
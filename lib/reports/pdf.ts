@@ -0,0 +1,148 @@
+import { formatInZone } from '../timezone';
+import { Digest } from './digest';
+import { digestMetrics, formatChange, formatNumber, formatRange, seriesTitle } from './render';
+
+// Minimal single-page PDF writer: standard Helvetica text and filled rectangles.
+// Enough for the digest without pulling in a PDF or browser rendering library.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+
+type Color = [number, number, number];
+
+const BLACK: Color = [0.07, 0.09, 0.15];
+const GRAY: Color = [0.42, 0.45, 0.5];
+const BLUE: Color = [0.23, 0.51, 0.96];
+const LIGHT_BLUE: Color = [0.58, 0.77, 0.99];
+const GREEN: Color = [0.09, 0.64, 0.29];
+const RED: Color = [0.86, 0.15, 0.15];
+
+// The standard fonts only cover WinAnsi; drop accents and replace anything else
+function pdfString(value: string): string {
+  const ascii = value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '?');
+  return `(${ascii.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+class Page {
+  private ops: string[] = [];
+
+  // y is measured from the top of the page
+  text(x: number, y: number, value: string, size = 10, color: Color = BLACK, bold = false) {
+    this.ops.push(
+      `${color.join(' ')} rg BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${PAGE_HEIGHT - y} Td ${pdfString(value)} Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: Color) {
+    this.ops.push(`${color.join(' ')} rg ${x} ${PAGE_HEIGHT - y - height} ${width} ${height} re f`);
+  }
+
+  content(): string {
+    return this.ops.join('\n');
+  }
+}
+
+function buildPdf(content: string): Uint8Array<ArrayBuffer> {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + '/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  // Everything is ASCII, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf) as Uint8Array<ArrayBuffer>;
+}
+
+function barList(page: Page, top: number, title: string, rows: { label: string; bars: { value: number; color: Color }[] }[]) {
+  page.text(MARGIN, top, title, 13, BLACK, true);
+  const max = Math.max(0, ...rows.flatMap((row) => row.bars.map((bar) => bar.value)));
+  let y = top + 18;
+  for (const row of rows) {
+    page.text(MARGIN, y + 8, row.label.length > 32 ? `${row.label.slice(0, 31)}...` : row.label, 9);
+    row.bars.forEach((bar, index) => {
+      const width = max > 0 ? Math.max(1, (bar.value / max) * 220) : 1;
+      page.rect(MARGIN + 190, y + index * 5, width, 4, bar.color);
+    });
+    page.text(MARGIN + 420, y + 8, row.bars.map((bar) => formatNumber(bar.value)).join(' / '), 9, GRAY);
+    y += 16;
+  }
+  return y;
+}
+
+export function renderDigestPdf(digest: Digest): Uint8Array<ArrayBuffer> {
+  const page = new Page();
+  let y = MARGIN;
+
+  page.text(MARGIN, y, digest.title, 18, BLACK, true);
+  y += 20;
+  page.text(
+    MARGIN, y,
+    `${formatRange(digest.range)} (${digest.timeZone}), compared with ${formatRange(digest.previousRange)}`,
+    10, GRAY
+  );
+  y += 30;
+
+  const cardWidth = (PAGE_WIDTH - 2 * MARGIN) / 3;
+  digestMetrics(digest).forEach(({ label, value, delta }, index) => {
+    const x = MARGIN + index * cardWidth;
+    page.text(x, y, label, 10, GRAY);
+    page.text(x, y + 22, formatNumber(value), 20, BLACK, true);
+    page.text(x, y + 38, formatChange(delta), 9, delta.change > 0 ? GREEN : delta.change < 0 ? RED : GRAY);
+  });
+  y += 70;
+
+  page.text(MARGIN, y, seriesTitle(digest), 13, BLACK, true);
+  y += 14;
+  const chartHeight = 90;
+  const max = Math.max(0, ...digest.series.map((point) => point.hits));
+  const slot = (PAGE_WIDTH - 2 * MARGIN) / Math.max(1, digest.series.length);
+  const barWidth = Math.min(28, slot * 0.7);
+  digest.series.forEach((point, index) => {
+    const height = max > 0 ? Math.max(1, (point.hits / max) * chartHeight) : 1;
+    const x = MARGIN + index * slot + (slot - barWidth) / 2;
+    page.rect(x, y + chartHeight - height, barWidth, height, BLUE);
+    if (digest.series.length <= 14) {
+      page.text(x, y + chartHeight + 12, formatInZone(point.time, 'MMM dd', digest.timeZone), 7, GRAY);
+    }
+  });
+  y += chartHeight + 36;
+
+  y = barList(page, y, 'Top Countries', digest.topCountries.map(({ country, count, previousCount }) => ({
+    label: country || 'Unknown',
+    bars: [{ value: count, color: BLUE }, { value: previousCount, color: LIGHT_BLUE }],
+  })));
+  page.text(MARGIN, y + 4, `Dark: ${formatRange(digest.range)}   Light: ${formatRange(digest.previousRange)}`, 8, GRAY);
+  y += 28;
+
+  y = barList(page, y, 'Top Organizations', digest.topOrgs.map(({ org, hits }) => ({
+    label: org,
+    bars: [{ value: hits, color: BLUE }],
+  })));
+
+  page.text(
+    MARGIN, PAGE_HEIGHT - MARGIN,
+    `All time: ${formatNumber(digest.totals.totalHits)} reports, ${formatNumber(digest.totals.uniqueUsers)} users, `
+      + `${formatNumber(digest.totals.uniqueCountries)} countries. `
+      + `Generated ${formatInZone(digest.generatedAt, 'MMM dd, yyyy HH:mm', digest.timeZone)}.`,
+    8, GRAY
+  );
+
+  return buildPdf(page.content());
+}
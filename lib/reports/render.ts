@@ -0,0 +1,157 @@
+import { format, parseISO } from 'date-fns';
+import { Delta } from '../growth';
+import { DateRange } from '../timeSeries';
+import { formatInZone } from '../timezone';
+import { Digest } from './digest';
+
+// Email clients strip SVG and most CSS, so charts are plain tables with inline widths and heights
+
+const BLUE = '#3B82F6';
+const LIGHT_BLUE = '#93C5FD';
+const CHART_HEIGHT = 120;
+const CHART_WIDTH = 640;
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export function formatNumber(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+export function formatRange({ startDate, endDate }: DateRange): string {
+  return `${format(parseISO(startDate), 'MMM dd')} - ${format(parseISO(endDate), 'MMM dd, yyyy')}`;
+}
+
+export function formatChange({ change, percent }: Delta): string {
+  const sign = change > 0 ? '+' : '';
+  const pct = percent === null ? '' : ` (${sign}${percent.toFixed(1)}%)`;
+  return `${sign}${formatNumber(change)}${pct}`;
+}
+
+export function digestSubject(digest: Digest): string {
+  return `${digest.title}: ${formatRange(digest.range)}`;
+}
+
+// The figures shown as cards, in display order
+export function digestMetrics(digest: Digest): { label: string; value: number; delta: Delta }[] {
+  return [
+    { label: 'Page Views', value: digest.metrics.totalHits, delta: digest.deltas.totalHits },
+    { label: 'Unique Visitors', value: digest.metrics.uniqueIPs, delta: digest.deltas.uniqueIPs },
+    { label: 'Countries', value: digest.metrics.uniqueCountries, delta: digest.deltas.uniqueCountries },
+  ];
+}
+
+// Plain-text summary for the email text part and chat webhooks
+export function renderDigestText(digest: Digest): string {
+  const lines = [
+    `*${digestSubject(digest)}* (${digest.timeZone})`,
+    '',
+    ...digestMetrics(digest).map(({ label, value, delta }) => (
+      `${label}: ${formatNumber(value)} (${formatChange(delta)} vs ${formatRange(digest.previousRange)})`
+    )),
+    `All time: ${formatNumber(digest.totals.totalHits)} reports, ${formatNumber(digest.totals.uniqueUsers)} users, ${formatNumber(digest.totals.uniqueCountries)} countries`,
+    '',
+    'Top countries:',
+    ...digest.topCountries.map(({ country, count, previousCount }) => (
+      `  ${country || 'Unknown'}: ${formatNumber(count)} (previously ${formatNumber(previousCount)})`
+    )),
+    '',
+    'Top organizations:',
+    ...digest.topOrgs.map(({ org, hits }) => `  ${org}: ${formatNumber(hits)}`),
+  ];
+  return lines.join('\n');
+}
+
+function changeColor({ change }: Delta): string {
+  if (change > 0) return '#16A34A';
+  if (change < 0) return '#DC2626';
+  return '#6B7280';
+}
+
+function barRow(label: string, bars: { value: number; color: string }[], max: number): string {
+  const cells = bars.map(({ value, color }) => {
+    const width = max > 0 ? Math.max(1, Math.round((value / max) * 300)) : 1;
+    return `<div style="background:${color};height:8px;width:${width}px;margin:2px 0"></div>`;
+  }).join('');
+  const values = bars.map(({ value }) => formatNumber(value)).join(' / ');
+  return `<tr>
+    <td style="padding:4px 8px;font-size:13px;white-space:nowrap">${escapeHtml(label)}</td>
+    <td style="padding:4px 8px">${cells}</td>
+    <td style="padding:4px 8px;font-size:13px;color:#6B7280;white-space:nowrap">${values}</td>
+  </tr>`;
+}
+
+export function seriesTitle(digest: Digest): string {
+  return digest.granularity === 'week' ? 'Weekly Hits' : 'Daily Hits';
+}
+
+function seriesChart(digest: Digest): string {
+  const max = Math.max(0, ...digest.series.map((point) => point.hits));
+  // Labels only fit under each column for short ranges; otherwise they go in the bar's title
+  const labelled = digest.series.length <= 14;
+  const barWidth = Math.max(6, Math.min(24, Math.floor(CHART_WIDTH / Math.max(1, digest.series.length)) - 4));
+  const columns = digest.series.map((point) => {
+    const height = max > 0 ? Math.max(1, Math.round((point.hits / max) * CHART_HEIGHT)) : 1;
+    const label = formatInZone(point.time, 'MMM dd', digest.timeZone);
+    return `<td style="vertical-align:bottom;text-align:center;padding:0 2px">
+      ${labelled ? `<div style="font-size:10px;color:#6B7280">${formatNumber(point.hits)}</div>` : ''}
+      <div title="${label}: ${formatNumber(point.hits)}" style="background:${BLUE};height:${height}px;width:${barWidth}px;margin:0 auto"></div>
+      ${labelled ? `<div style="font-size:10px;color:#6B7280">${label}</div>` : ''}
+    </td>`;
+  }).join('');
+  return `<table cellspacing="0" cellpadding="0" style="height:${CHART_HEIGHT + 40}px"><tr>${columns}</tr></table>`;
+}
+
+export function renderDigestHtml(digest: Digest): string {
+  const cards = digestMetrics(digest).map(({ label, value, delta }) => `
+    <td style="padding:12px 16px;background:#F9FAFB;border-radius:8px">
+      <div style="font-size:13px;color:#4B5563">${label}</div>
+      <div style="font-size:24px;font-weight:bold;color:#111827">${formatNumber(value)}</div>
+      <div style="font-size:12px;color:${changeColor(delta)}">${formatChange(delta)}</div>
+    </td>`).join('<td style="width:12px"></td>');
+
+  const countryMax = Math.max(0, ...digest.topCountries.flatMap(({ count, previousCount }) => [count, previousCount]));
+  const countryRows = digest.topCountries.map(({ country, count, previousCount }) => barRow(
+    country || 'Unknown',
+    [{ value: count, color: BLUE }, { value: previousCount, color: LIGHT_BLUE }],
+    countryMax
+  )).join('');
+
+  const orgMax = digest.topOrgs[0]?.hits ?? 0;
+  const orgRows = digest.topOrgs.map(({ org, hits }) => barRow(org, [{ value: hits, color: BLUE }], orgMax)).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(digestSubject(digest))}</title></head>
+<body style="margin:0;padding:24px;background:#F3F4F6;font-family:Arial,Helvetica,sans-serif;color:#111827">
+  <div style="max-width:720px;margin:0 auto;background:white;border-radius:12px;padding:24px">
+    <h1 style="font-size:20px;margin:0 0 4px">${escapeHtml(digest.title)}</h1>
+    <p style="margin:0 0 16px;color:#4B5563;font-size:14px">
+      ${formatRange(digest.range)} (${escapeHtml(digest.timeZone)}), compared with ${formatRange(digest.previousRange)}
+    </p>
+
+    <table cellspacing="0" cellpadding="0" style="width:100%;margin-bottom:24px"><tr>${cards}</tr></table>
+
+    <h2 style="font-size:16px;margin:0 0 8px">${seriesTitle(digest)}</h2>
+    ${seriesChart(digest)}
+
+    <h2 style="font-size:16px;margin:24px 0 8px">Top Countries</h2>
+    <p style="margin:0 0 8px;font-size:12px;color:#6B7280">
+      <span style="color:${BLUE}">&#9632;</span> ${formatRange(digest.range)}
+      <span style="color:${LIGHT_BLUE};margin-left:12px">&#9632;</span> ${formatRange(digest.previousRange)}
+    </p>
+    <table cellspacing="0" cellpadding="0">${countryRows}</table>
+
+    <h2 style="font-size:16px;margin:24px 0 8px">Top Organizations</h2>
+    <table cellspacing="0" cellpadding="0">${orgRows}</table>
+
+    <p style="margin:24px 0 0;font-size:12px;color:#6B7280">
+      All time: ${formatNumber(digest.totals.totalHits)} reports generated, ${formatNumber(digest.totals.uniqueUsers)} users,
+      ${formatNumber(digest.totals.uniqueCountries)} countries. Generated ${formatInZone(digest.generatedAt, 'MMM dd, yyyy HH:mm', digest.timeZone)}.
+    </p>
+  </div>
+</body>
+</html>
+`;
+}
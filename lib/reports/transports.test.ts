@@ -0,0 +1,116 @@
+import { ChildProcess, spawn } from 'child_process';
+import { mkdtempSync, readdirSync, readFileSync } from 'fs';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { LogEntry } from '../types';
+import { buildDigest, DigestError } from './digest';
+import { createFileTransport, createSmtpTransport, createTransportFromEnv, createWebhookTransport } from './transports';
+import { renderDigest } from '.';
+
+const SMTP_SINK_PORT = 2625;
+const SMTP_SINK_SCRIPT = fileURLToPath(new URL('../../scripts/smtp-sink.mjs', import.meta.url));
+
+const logs: LogEntry[] = [
+  { timestamp: '2025-08-09T10:00:00Z', ip: '1.1.1.1', country: 'US', region: '', city: '', org: 'AS7922 Comcast' },
+  { timestamp: '2025-08-10T10:00:00Z', ip: '2.2.2.2', country: 'DE', region: '', city: '', org: 'AS3320 Deutsche Telekom AG' },
+];
+const report = renderDigest(buildDigest(logs, null, { startDate: '2025-08-08', endDate: '2025-08-14' }, 'UTC'));
+
+let sink: ChildProcess;
+let sinkDir: string;
+
+beforeAll(async () => {
+  sinkDir = mkdtempSync(path.join(tmpdir(), 'smtp-sink-'));
+  sink = spawn(process.execPath, [SMTP_SINK_SCRIPT], {
+    env: { ...process.env, SMTP_SINK_PORT: String(SMTP_SINK_PORT), SMTP_SINK_DIR: sinkDir },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await new Promise<void>((resolve, reject) => {
+    sink.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve();
+    });
+    sink.on('exit', (code) => reject(new Error(`SMTP sink exited with ${code}`)));
+  });
+});
+
+afterAll(() => {
+  sink?.kill();
+});
+
+describe('createSmtpTransport', () => {
+  it('delivers the digest with the PDF attached', async () => {
+    const transport = createSmtpTransport({
+      url: `smtp://localhost:${SMTP_SINK_PORT}`,
+      from: 'dashboard@example.test',
+      to: ['team@example.test', 'ops@example.test'],
+    });
+    await expect(transport.send(report)).resolves.toBe('emailed team@example.test, ops@example.test');
+
+    const files = readdirSync(sinkDir).filter((file) => file.endsWith('.eml'));
+    expect(files).toHaveLength(1);
+    const message = readFileSync(path.join(sinkDir, files[0]), 'latin1');
+    expect(message).toContain(`Subject: ${report.subject}`);
+    expect(message).toMatch(/^To: team@example\.test, ops@example\.test/m);
+    expect(message).toContain('Content-Type: text/html');
+    expect(message).toContain(`filename=${report.filename}.pdf`);
+
+    const attachment = /Content-Type: application\/pdf[\s\S]*?\r\n\r\n([A-Za-z0-9+/=\r\n]+?)\r\n--/.exec(message)![1];
+    expect(Buffer.from(attachment.replace(/\s/g, ''), 'base64').subarray(0, 8).toString()).toBe('%PDF-1.4');
+  });
+
+  it('fails when the server cannot be reached', async () => {
+    const transport = createSmtpTransport({ url: 'smtp://localhost:1', from: 'a@example.test', to: ['b@example.test'] });
+    await expect(transport.send(report)).rejects.toThrow();
+  });
+});
+
+describe('createWebhookTransport', () => {
+  it('posts the text and figures as JSON', async () => {
+    let received: { text: string; digest: { metrics: unknown } } | null = null;
+    const server = createServer(async (request, response) => {
+      let body = '';
+      for await (const chunk of request) body += chunk;
+      received = JSON.parse(body);
+      response.end('ok');
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const url = `http://localhost:${(server.address() as AddressInfo).port}/hook`;
+
+    try {
+      await createWebhookTransport(url).send(report);
+    } finally {
+      server.close();
+    }
+    expect(received!.text).toBe(report.text);
+    expect(received!.digest.metrics).toEqual(report.digest.metrics);
+  });
+});
+
+describe('createFileTransport', () => {
+  it('writes the HTML and PDF', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'digest-'));
+    await createFileTransport(dir).send(report);
+    expect(readdirSync(dir).sort()).toEqual([`${report.filename}.html`, `${report.filename}.pdf`]);
+    expect(readFileSync(path.join(dir, `${report.filename}.html`), 'utf8')).toBe(report.html);
+  });
+});
+
+describe('createTransportFromEnv', () => {
+  const env = (vars: Record<string, string>): NodeJS.ProcessEnv => ({ NODE_ENV: 'test', ...vars });
+
+  it('requires the settings of the selected transport', () => {
+    expect(() => createTransportFromEnv('smtp', env({ REPORT_EMAIL_TO: 'a@example.test' }))).toThrow(DigestError);
+    expect(() => createTransportFromEnv('webhook', env({}))).toThrow(DigestError);
+    expect(() => createTransportFromEnv('fax', env({}))).toThrow(DigestError);
+  });
+
+  it('picks REPORT_TRANSPORT, defaulting to files', () => {
+    const smtp = env({ REPORT_TRANSPORT: 'smtp', REPORT_SMTP_URL: 'smtp://localhost:25', REPORT_EMAIL_TO: 'a@example.test' });
+    expect(createTransportFromEnv(undefined, smtp).name).toBe('smtp');
+    expect(createTransportFromEnv(undefined, env({})).name).toBe('file');
+  });
+});
@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createTransport } from 'nodemailer';
+import { Digest, DigestError } from './digest';
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+  pdf: Uint8Array<ArrayBuffer>;
+  // Base name for attachments and dropped files, without extension
+  filename: string;
+  digest: Digest;
+}
+
+export interface DigestTransport {
+  name: string;
+  // Resolves to a short description of where the digest went
+  send(report: RenderedDigest): Promise<string>;
+}
+
+export const TRANSPORT_KINDS = ['smtp', 'webhook', 'file'] as const;
+export type TransportKind = typeof TRANSPORT_KINDS[number];
+
+export function createSmtpTransport({ url, from, to }: { url: string; from: string; to: string[] }): DigestTransport {
+  const mailer = createTransport(url);
+  return {
+    name: 'smtp',
+    async send(report) {
+      await mailer.sendMail({
+        from,
+        to,
+        subject: report.subject,
+        text: report.text,
+        html: report.html,
+        attachments: [{ filename: `${report.filename}.pdf`, content: Buffer.from(report.pdf), contentType: 'application/pdf' }],
+      });
+      return `emailed ${to.join(', ')}`;
+    },
+  };
+}
+
+// Posts Slack-compatible JSON: `text` renders in chat, `digest` carries the figures for other consumers
+export function createWebhookTransport(url: string): DigestTransport {
+  return {
+    name: 'webhook',
+    async send(report) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: report.text, digest: report.digest }),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`);
+      }
+      return `posted to ${new URL(url).host}`;
+    },
+  };
+}
+
+export function createFileTransport(dir: string): DigestTransport {
+  return {
+    name: 'file',
+    async send(report) {
+      await fs.mkdir(dir, { recursive: true });
+      const base = path.join(dir, report.filename);
+      await Promise.all([
+        fs.writeFile(`${base}.html`, report.html),
+        fs.writeFile(`${base}.pdf`, report.pdf),
+      ]);
+      return `wrote ${base}.html and ${base}.pdf`;
+    },
+  };
+}
+
+function requireEnv(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+  if (!value) throw new DigestError(`${name} is required for this transport`);
+  return value;
+}
+
+// REPORT_TRANSPORT picks the default; callers may pass another kind explicitly
+export function createTransportFromEnv(kind?: string, env: NodeJS.ProcessEnv = process.env): DigestTransport {
+  const selected = kind || env.REPORT_TRANSPORT || 'file';
+  switch (selected) {
+    case 'smtp':
+      return createSmtpTransport({
+        url: requireEnv(env, 'REPORT_SMTP_URL'),
+        from: env.REPORT_EMAIL_FROM || 'medtalk-dashboard@localhost',
+        to: requireEnv(env, 'REPORT_EMAIL_TO').split(',').map((address) => address.trim()).filter(Boolean),
+      });
+    case 'webhook':
+      return createWebhookTransport(requireEnv(env, 'REPORT_WEBHOOK_URL'));
+    case 'file':
+      return createFileTransport(env.REPORT_DIR || path.join(process.cwd(), 'data', 'reports'));
+    default:
+      throw new DigestError(`Unknown transport: ${selected}. Expected one of ${TRANSPORT_KINDS.join(', ')}`);
+  }
+}
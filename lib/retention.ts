@@ -0,0 +1,123 @@
+import { parseISO, format, startOfWeek, addWeeks, differenceInCalendarWeeks } from 'date-fns';
+import { LogEntry, StatsData, visitorKey } from './types';
+import { DEFAULT_TIME_ZONE, inZone, dayInZone } from './timezone';
+
+export interface Cohort {
+  // Monday of the week the cohort was first seen
+  week: string;
+  size: number;
+  // Percentage of the cohort active in each week since, starting with the first-seen week itself.
+  // Weeks after the end of the data are left out.
+  retention: number[];
+}
+
+export interface ReturningSplit {
+  newVisitors: number;
+  returningVisitors: number;
+}
+
+// Weeks start on Monday in the selected zone
+function weekOptions(timeZone: string) {
+  return { weekStartsOn: 1, in: inZone(timeZone) } as const;
+}
+
+// First day each visitor was seen in the zone, from the logs, and from daily_stats.new_unique_ips
+// for history before the logs begin. daily_stats days are UTC, so they are only trusted there.
+export function firstSeenDays(
+  logs: LogEntry[],
+  stats: StatsData | null,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Map<string, string> {
+  const firstSeen = new Map<string, string>();
+  const remember = (key: string, day: string) => {
+    const current = firstSeen.get(key);
+    if (!current || day < current) firstSeen.set(key, day);
+  };
+
+  let firstLogDay = '';
+  for (const log of logs) {
+    const day = dayInZone(log.timestamp, timeZone);
+    remember(visitorKey(log), day);
+    if (!firstLogDay || day < firstLogDay) firstLogDay = day;
+  }
+  for (const [day, daily] of Object.entries(stats?.daily_stats ?? {})) {
+    if (firstLogDay && day >= firstLogDay) continue;
+    for (const ip of daily.new_unique_ips) remember(ip, day);
+  }
+  return firstSeen;
+}
+
+// Weekly cohorts of the visitors in logs. Cohorts first seen before the logs begin are left out,
+// since their earlier activity can't be observed.
+export function buildCohorts(
+  logs: LogEntry[],
+  firstSeen: Map<string, string>,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Cohort[] {
+  if (logs.length === 0) return [];
+
+  const options = weekOptions(timeZone);
+
+  const activeWeeks = new Map<string, Set<number>>();
+  let firstWeek = Infinity;
+  let lastWeek = -Infinity;
+
+  for (const log of logs) {
+    const week = startOfWeek(parseISO(log.timestamp), options).getTime();
+    firstWeek = Math.min(firstWeek, week);
+    lastWeek = Math.max(lastWeek, week);
+
+    const key = visitorKey(log);
+    let weeks = activeWeeks.get(key);
+    if (!weeks) {
+      weeks = new Set();
+      activeWeeks.set(key, weeks);
+    }
+    weeks.add(week);
+  }
+
+  const cohorts = new Map<number, string[]>();
+  for (const key of activeWeeks.keys()) {
+    const day = firstSeen.get(key);
+    if (!day) continue;
+
+    const week = startOfWeek(parseISO(day, options), options).getTime();
+    if (week < firstWeek) continue;
+
+    const members = cohorts.get(week) ?? [];
+    members.push(key);
+    cohorts.set(week, members);
+  }
+
+  return [...cohorts.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([week, members]) => {
+      const weeks = differenceInCalendarWeeks(lastWeek, week, options) + 1;
+      const retention = Array.from({ length: weeks }, (_, offset) => {
+        if (offset === 0) return 100;
+        const target = addWeeks(week, offset, options).getTime();
+        const active = members.filter((key) => activeWeeks.get(key)!.has(target)).length;
+        return (active / members.length) * 100;
+      });
+      return { week: format(week, 'yyyy-MM-dd', options), size: members.length, retention };
+    });
+}
+
+// A visitor is returning when any of their hits falls on a later day than the one they were first seen
+export function splitReturning(
+  logs: LogEntry[],
+  firstSeen: Map<string, string>,
+  timeZone: string = DEFAULT_TIME_ZONE
+): ReturningSplit {
+  const returning = new Set<string>();
+  const all = new Set<string>();
+
+  for (const log of logs) {
+    const key = visitorKey(log);
+    all.add(key);
+    const first = firstSeen.get(key);
+    if (first && dayInZone(log.timestamp, timeZone) > first) returning.add(key);
+  }
+
+  return { newVisitors: all.size - returning.size, returningVisitors: returning.size };
+}
@@ -0,0 +1,77 @@
+import { SchemaError } from './schema';
+
+// Thrown for non-2xx responses so callers can tell client errors from transient failures
+export class HttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS = { retries: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+
+// Network failures, timeouts, rate limits and server errors may succeed on a later attempt;
+// bad requests and invalid payloads will not
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof SchemaError) return false;
+  if ((error as Error)?.name === 'AbortError') return false;
+  if (error instanceof HttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+// Exponential backoff with jitter: about base * 2^attempt, capped, and spread over its upper half
+// so clients that failed together don't retry together
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error) || options.signal?.aborted) throw error;
+      const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      options.onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+// GET a JSON document and validate it, retrying transient failures
+export function fetchJson<T>(
+  url: string,
+  parse: (value: unknown) => T,
+  options: RetryOptions & { init?: RequestInit } = {}
+): Promise<T> {
+  return withRetry(async () => {
+    const response = await fetch(url, { ...options.init, signal: options.signal });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new HttpError(body?.error || `Request failed with status ${response.status}`, response.status);
+    }
+    return parse(await response.json());
+  }, options);
+}
@@ -0,0 +1,36 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CurrentUser } from './auth';
+import { SavedViewError, createView, listViews, updateView } from './savedViews';
+
+const alice: CurrentUser = { id: 'alice', name: 'Alice', role: 'viewer' };
+
+beforeEach(() => {
+  vi.stubEnv('SAVED_VIEWS_FILE', path.join(mkdtempSync(path.join(tmpdir(), 'views-test-')), 'views.json'));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('saved views', () => {
+  it('creates and renames a view', async () => {
+    const view = await createView(alice, { name: ' Germany ', query: 'q=country%3ADE&page=3' });
+    expect(view).toMatchObject({ name: 'Germany', owner: 'alice', shared: false });
+    expect(view.query).not.toContain('page=3');
+
+    expect(await updateView(alice, view.id, { name: 'DE' })).toMatchObject({ id: view.id, name: 'DE' });
+    expect(await listViews(alice)).toHaveLength(1);
+  });
+
+  it.each([null, 'Germany', 42, ['Germany']])('rejects a body of %j with 400', async (body) => {
+    const error = await createView(alice, body).catch((caught) => caught);
+    expect(error).toBeInstanceOf(SavedViewError);
+    expect(error).toMatchObject({ message: 'Expected a JSON object', status: 400 });
+
+    const view = await createView(alice, { name: 'Germany', query: '' });
+    await expect(updateView(alice, view.id, body)).rejects.toMatchObject({ status: 400 });
+  });
+});
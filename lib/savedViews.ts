@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { CurrentUser } from './auth';
+import { parseDashboardState, serializeDashboardState } from './urlState';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  // Dashboard state as URL query parameters, e.g. "q=country%3AUS&nodc=1&view=table"
+  query: string;
+  owner: string;
+  ownerName: string;
+  // Shared views are listed for everyone; private ones only for their owner
+  shared: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedViewInput {
+  name?: unknown;
+  query?: unknown;
+  shared?: unknown;
+}
+
+export class SavedViewError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export const MAX_VIEW_NAME_LENGTH = 100;
+
+function storePath(): string {
+  return process.env.SAVED_VIEWS_FILE || path.join(process.cwd(), 'data', 'saved-views.json');
+}
+
+async function readViews(): Promise<SavedView[]> {
+  try {
+    return JSON.parse(await fs.readFile(storePath(), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Write to a temporary file and rename it over the store, so a crash never leaves half a file
+async function writeViews(views: SavedView[]): Promise<void> {
+  const file = storePath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(views, null, 2));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+let pending: Promise<unknown> = Promise.resolve();
+
+// Run read-modify-write operations one at a time so concurrent requests don't overwrite each other
+function withViews<T>(operation: (views: SavedView[]) => Promise<T> | T): Promise<T> {
+  const result = pending.then(async () => operation(await readViews()));
+  pending = result.catch(() => undefined);
+  return result;
+}
+
+// Request bodies are arbitrary JSON, which may not be an object at all
+function validateInput(input: unknown): SavedViewInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new SavedViewError('Expected a JSON object', 400);
+  }
+  return input;
+}
+
+function validateName(name: unknown, views: SavedView[], user: CurrentUser, id?: string): string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new SavedViewError('Name is required', 400);
+  }
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_VIEW_NAME_LENGTH) {
+    throw new SavedViewError(`Name must be at most ${MAX_VIEW_NAME_LENGTH} characters`, 400);
+  }
+  if (views.some((view) => view.owner === user.id && view.id !== id && view.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new SavedViewError(`You already have a view named "${trimmed}"`, 409);
+  }
+  return trimmed;
+}
+
+// Normalize through the dashboard's own URL format; the page number is not part of a view
+function validateQuery(query: unknown): string {
+  if (typeof query !== 'string') {
+    throw new SavedViewError('Query is required', 400);
+  }
+  const state = parseDashboardState(new URLSearchParams(query));
+  return serializeDashboardState({ ...state, currentPage: 1 }).toString();
+}
+
+function findEditable(views: SavedView[], user: CurrentUser, id: string): SavedView {
+  const view = views.find((candidate) => candidate.id === id);
+  if (!view || (view.owner !== user.id && !view.shared)) {
+    throw new SavedViewError('View not found', 404);
+  }
+  if (view.owner !== user.id && user.role !== 'admin') {
+    throw new SavedViewError('Only the owner or an admin can change this view', 403);
+  }
+  return view;
+}
+
+export function listViews(user: CurrentUser): Promise<SavedView[]> {
+  return withViews((views) => views
+    .filter((view) => view.owner === user.id || view.shared)
+    .sort((a, b) => a.name.localeCompare(b.name)));
+}
+
+export function createView(user: CurrentUser, body: unknown): Promise<SavedView> {
+  return withViews(async (views) => {
+    const input = validateInput(body);
+    const now = new Date().toISOString();
+    const view: SavedView = {
+      id: randomUUID(),
+      name: validateName(input.name, views, user),
+      query: validateQuery(input.query),
+      owner: user.id,
+      ownerName: user.name,
+      shared: input.shared === true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await writeViews([...views, view]);
+    return view;
+  });
+}
+
+export function updateView(user: CurrentUser, id: string, body: unknown): Promise<SavedView> {
+  return withViews(async (views) => {
+    const input = validateInput(body);
+    const view = findEditable(views, user, id);
+    const updated: SavedView = {
+      ...view,
+      ...(input.name !== undefined && { name: validateName(input.name, views, { ...user, id: view.owner }, id) }),
+      ...(input.query !== undefined && { query: validateQuery(input.query) }),
+      ...(input.shared !== undefined && { shared: input.shared === true }),
+      updatedAt: new Date().toISOString(),
+    };
+    await writeViews(views.map((candidate) => (candidate.id === id ? updated : candidate)));
+    return updated;
+  });
+}
+
+export function deleteView(user: CurrentUser, id: string): Promise<void> {
+  return withViews(async (views) => {
+    findEditable(views, user, id);
+    await writeViews(views.filter((view) => view.id !== id));
+  });
+}
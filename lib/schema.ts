@@ -0,0 +1,105 @@
+import { parseISO, isValid } from 'date-fns';
+import { LogEntry, StatsData, DailyStats } from './types';
+
+// Runtime checks for log and stats payloads, so a changed or broken upstream API fails loudly
+// instead of rendering as zero traffic
+
+export class SchemaError extends Error {}
+
+// Stop collecting after this many problems; the first few are enough to diagnose a payload
+const MAX_ISSUES = 5;
+
+type Issues = string[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && isValid(parseISO(value));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function fail(label: string, issues: Issues): never {
+  throw new SchemaError(`Invalid ${label}: ${issues.join('; ')}`);
+}
+
+// GeoIP lookups leave location fields empty for some addresses, so missing or null ones become ''
+const LOCATION_FIELDS = ['country', 'org', 'city', 'region'] as const;
+
+function checkLogEntry(value: unknown, path: string, issues: Issues): LogEntry | null {
+  if (!isRecord(value)) {
+    issues.push(`${path} is not an object`);
+    return null;
+  }
+  const start = issues.length;
+  if (typeof value.ip !== 'string' || !value.ip) issues.push(`${path}.ip must be a non-empty string`);
+  if (!isTimestamp(value.timestamp)) issues.push(`${path}.timestamp must be an ISO 8601 timestamp`);
+  for (const field of LOCATION_FIELDS) {
+    if (value[field] != null && typeof value[field] !== 'string') issues.push(`${path}.${field} must be a string`);
+  }
+  if (value.visitor !== undefined && typeof value.visitor !== 'string') issues.push(`${path}.visitor must be a string`);
+  if (issues.length > start) return null;
+
+  const entry: LogEntry = {
+    ip: value.ip as string,
+    timestamp: value.timestamp as string,
+    country: (value.country as string | null) ?? '',
+    org: (value.org as string | null) ?? '',
+    city: (value.city as string | null) ?? '',
+    region: (value.region as string | null) ?? '',
+  };
+  if (value.visitor !== undefined) entry.visitor = value.visitor as string;
+  return entry;
+}
+
+export function parseLogEntries(value: unknown, label = 'logs'): LogEntry[] {
+  if (!Array.isArray(value)) fail(label, ['expected an array of log entries']);
+
+  const issues: Issues = [];
+  const entries: LogEntry[] = [];
+  for (let i = 0; i < value.length && issues.length < MAX_ISSUES; i++) {
+    const entry = checkLogEntry(value[i], `[${i}]`, issues);
+    if (entry) entries.push(entry);
+  }
+  if (issues.length > 0) fail(label, issues);
+  return entries;
+}
+
+function checkDailyStats(value: unknown, path: string, issues: Issues): value is DailyStats {
+  if (!isRecord(value)) {
+    issues.push(`${path} is not an object`);
+    return false;
+  }
+  const start = issues.length;
+  if (typeof value.new_hits !== 'number') issues.push(`${path}.new_hits must be a number`);
+  if (!isStringArray(value.new_unique_ips)) issues.push(`${path}.new_unique_ips must be an array of strings`);
+  if (!isStringArray(value.new_unique_countries)) issues.push(`${path}.new_unique_countries must be an array of strings`);
+  return issues.length === start;
+}
+
+export function parseStatsData(value: unknown, label = 'stats'): StatsData {
+  if (!isRecord(value)) fail(label, ['expected an object']);
+
+  const issues: Issues = [];
+  if (typeof value.total_hits !== 'number') issues.push('total_hits must be a number');
+  if (!isStringArray(value.unique_ips)) issues.push('unique_ips must be an array of strings');
+  if (!isStringArray(value.unique_countries)) issues.push('unique_countries must be an array of strings');
+  // Empty until the first log has been processed
+  if (value.last_processed_timestamp !== '' && !isTimestamp(value.last_processed_timestamp)) {
+    issues.push('last_processed_timestamp must be an ISO 8601 timestamp');
+  }
+  if (!isRecord(value.daily_stats)) {
+    issues.push('daily_stats must be an object keyed by day');
+  } else {
+    for (const [day, daily] of Object.entries(value.daily_stats)) {
+      if (issues.length >= MAX_ISSUES) break;
+      checkDailyStats(daily, `daily_stats.${day}`, issues);
+    }
+  }
+  if (issues.length > 0) fail(label, issues);
+  return value as unknown as StatsData;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { LogEntry } from './types';
+import { SearchQueryError, compileSearchQuery, parseSearchQuery, setFieldTerm, removeTerms, validateSearchQuery } from './searchQuery';
+
+const logs: LogEntry[] = [
+  { timestamp: '2025-08-01T10:00:00Z', ip: '10.1.2.3', country: 'US', region: 'Virginia', city: 'Ashburn', org: 'AS15169 Google LLC' },
+  { timestamp: '2025-08-02T23:30:00Z', ip: '192.168.0.7', country: 'DE', region: 'Hesse', city: 'Frankfurt', org: 'AS3320 Deutsche Telekom AG' },
+  { timestamp: '2025-08-03T08:00:00Z', ip: '2001:db8::1', country: 'US', region: 'California', city: 'San Jose', org: 'AS7922 Comcast' },
+  { timestamp: '2025-08-04T12:00:00Z', ip: 'dead:beef::1', country: 'JP', region: 'Tokyo', city: 'Tokyo', org: 'AS2516 KDDI' },
+];
+
+function search(query: string, timeZone = 'UTC'): string[] {
+  return logs.filter(compileSearchQuery(query, timeZone)).map((log) => log.ip);
+}
+
+function error(query: string): { message: string; start: number; end: number } | null {
+  const result = validateSearchQuery(query);
+  return result && { message: result.message, start: result.start, end: result.end };
+}
+
+describe('parseSearchQuery', () => {
+  it('splits fields, quoted values and negation', () => {
+    expect(parseSearchQuery('country:US -org:"Google LLC" ashburn')).toEqual([
+      { field: 'country', value: 'US', negated: false, group: 0, start: 0, end: 10 },
+      { field: 'org', value: 'Google LLC', negated: true, group: 1, start: 11, end: 28 },
+      { field: null, value: 'ashburn', negated: false, group: 2, start: 29, end: 36 },
+    ]);
+  });
+
+  it('puts terms joined with OR in one group', () => {
+    const terms = parseSearchQuery('country:US OR country:DE org:google OR city:tokyo OR x');
+    expect(terms.map((term) => term.group)).toEqual([0, 0, 1, 1, 1]);
+  });
+
+  it('reads an IPv6 address as a value rather than a field', () => {
+    expect(parseSearchQuery('dead:beef::1')).toEqual([
+      { field: null, value: 'dead:beef::1', negated: false, group: 0, start: 0, end: 12 },
+    ]);
+    expect(parseSearchQuery('IP:2001:db8::1')[0]).toMatchObject({ field: 'ip', value: '2001:db8::1' });
+  });
+});
+
+describe('compileSearchQuery', () => {
+  it('matches free text against every field, case-insensitively', () => {
+    expect(search('ashburn')).toEqual(['10.1.2.3']);
+    expect(search('TELEKOM')).toEqual(['192.168.0.7']);
+    expect(search('"san jose"')).toEqual(['2001:db8::1']);
+    expect(search('')).toHaveLength(4);
+  });
+
+  it('requires every term and excludes negated ones', () => {
+    expect(search('country:us california')).toEqual(['2001:db8::1']);
+    expect(search('country:US -city:Ashburn')).toEqual(['2001:db8::1']);
+    expect(search('-country:US -org:kddi')).toEqual(['192.168.0.7']);
+  });
+
+  it('matches either side of OR, before applying the other terms', () => {
+    expect(search('country:DE OR country:JP')).toEqual(['192.168.0.7', 'dead:beef::1']);
+    expect(search('country:DE OR country:US org:google')).toEqual(['10.1.2.3']);
+    expect(search('-country:US OR city:ashburn')).toEqual(['10.1.2.3', '192.168.0.7', 'dead:beef::1']);
+    expect(search('or')).toEqual(['2001:db8::1']);
+  });
+
+  it('matches IPs exactly, by prefix and by CIDR range', () => {
+    expect(search('ip:10.1.2.3')).toEqual(['10.1.2.3']);
+    expect(search('ip:10.1.2')).toEqual([]);
+    expect(search('ip:192.168.*')).toEqual(['192.168.0.7']);
+    expect(search('ip:10.0.0.0/8')).toEqual(['10.1.2.3']);
+    expect(search('ip:192.168.0.0/24 OR ip:2001:db8::/32')).toEqual(['192.168.0.7', '2001:db8::1']);
+    expect(search('-ip:10.0.0.0/8 -ip:2001:db8::/32')).toEqual(['192.168.0.7', 'dead:beef::1']);
+  });
+
+  it('matches bare IPv6 addresses and CIDR ranges', () => {
+    expect(search('dead:beef::1')).toEqual(['dead:beef::1']);
+    expect(search('2001:db8::/32')).toEqual(['2001:db8::1']);
+    expect(search('10.0.0.0/8')).toEqual(['10.1.2.3']);
+  });
+
+  it('includes whole days in the selected zone for after: and before:', () => {
+    expect(search('after:2025-08-03')).toEqual(['2001:db8::1', 'dead:beef::1']);
+    expect(search('before:2025-08-02')).toEqual(['10.1.2.3', '192.168.0.7']);
+    expect(search('after:2025-08-02 before:2025-08-02')).toEqual(['192.168.0.7']);
+    expect(search('after:2025-08-03 before:2025-08-03', 'Europe/Berlin')).toEqual(['192.168.0.7', '2001:db8::1']);
+  });
+});
+
+describe('validateSearchQuery', () => {
+  it('accepts well-formed queries', () => {
+    expect(error('country:US OR country:DE -org:"Google LLC" ip:10.0.0.0/8 after:2025-08-01')).toBeNull();
+  });
+
+  it('points at the part of the query that is wrong', () => {
+    expect(error('org:"Google LLC')).toEqual({ message: 'Missing closing quote', start: 4, end: 15 });
+    expect(error('ashburn country:')).toEqual({ message: 'Missing value for "country"', start: 8, end: 16 });
+    expect(error('ip:10.0.0.0/33')).toEqual({ message: 'Invalid CIDR range "10.0.0.0/33"', start: 0, end: 14 });
+    expect(error('after:2025-02-30')).toEqual({ message: 'Invalid date "2025-02-30", expected yyyy-MM-dd', start: 0, end: 16 });
+    expect(error('before:yesterday')?.message).toBe('Invalid date "yesterday", expected yyyy-MM-dd');
+    expect(error('-')).toEqual({ message: 'Empty search term', start: 0, end: 1 });
+  });
+
+  it('rejects OR without a term on both sides', () => {
+    expect(error('OR country:US')).toEqual({ message: '"OR" must come between two terms', start: 0, end: 2 });
+    expect(error('country:US OR')).toEqual({ message: '"OR" must come between two terms', start: 11, end: 13 });
+    expect(error('country:US OR OR country:DE')).toEqual({ message: '"OR" must come between two terms', start: 14, end: 16 });
+  });
+
+  it('throws SearchQueryError from compileSearchQuery', () => {
+    expect(() => compileSearchQuery('ip:nope/8')).toThrow(SearchQueryError);
+  });
+});
+
+describe('removeTerms and setFieldTerm', () => {
+  it('drop the OR that joined a removed term', () => {
+    const query = 'country:US OR country:DE org:google';
+    expect(removeTerms(query, (term) => term.value === 'US')).toBe('country:DE org:google');
+    expect(removeTerms(query, (term) => term.value === 'DE')).toBe('country:US org:google');
+    expect(removeTerms('a OR b OR c', (term) => term.value === 'b')).toBe('a OR c');
+    expect(removeTerms('a b OR c', (term) => term.value === 'b')).toBe('a c');
+  });
+
+  it('replace the country terms with one term', () => {
+    expect(setFieldTerm('country:US OR country:DE ashburn', 'country', 'FR')).toBe('ashburn country:FR');
+    expect(setFieldTerm('-country:US', 'country', 'FR')).toBe('-country:US country:FR');
+    expect(setFieldTerm('org:google', 'org', 'Deutsche Telekom')).toBe('org:"Deutsche Telekom"');
+    expect(setFieldTerm('country:US', 'country', null)).toBe('');
+  });
+
+  it('leave malformed queries alone', () => {
+    expect(removeTerms('org:"open', () => true)).toBe('org:"open');
+  });
+});
@@ -0,0 +1,226 @@
+import { parseISO, isValid } from 'date-fns';
+import { DEFAULT_TIME_ZONE, dayBounds } from './timezone';
+import { LogEntry } from './types';
+import { parseCIDR, ipInCIDR } from './ip';
+
+// Search box syntax, all terms must match:
+//   ashburn                  substring of ip, country, region, city or org
+//   10.0.0.0/8, dead:beef::1 CIDR range or substring of the ip
+//   "google llc"             quoted substring
+//   country:US               exact country (case-insensitive)
+//   region:/city:/org:       substring of that field, values may be quoted
+//   ip:1.2.3.4               exact IP; ip:10.0.* prefix; ip:10.0.0.0/8 CIDR
+//   after:2025-08-01         on or after that day
+//   before:2025-08-31        on or before that day
+//   -term / -field:value     exclude matches
+//   term OR term             either term; binds tighter than the implicit AND
+
+export const SEARCH_FIELDS = ['country', 'region', 'city', 'org', 'ip', 'after', 'before'] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+export interface SearchTerm {
+  field: SearchField | null;
+  value: string;
+  negated: boolean;
+  // Terms in the same group are joined with OR; every group must match
+  group: number;
+  start: number;
+  end: number;
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+type Predicate = (log: LogEntry) => boolean;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const OR_PATTERN = /^OR(?=\s|$)/;
+
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  let group = -1;
+  // Position of an OR still waiting for the term after it
+  let orStart: number | null = null;
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    if (OR_PATTERN.test(query.slice(i))) {
+      if (terms.length === 0 || orStart !== null) {
+        throw new SearchQueryError('"OR" must come between two terms', i, i + 2);
+      }
+      orStart = i;
+      i += 2;
+      continue;
+    }
+
+    const start = i;
+    let negated = false;
+    if (query[i] === '-') {
+      negated = true;
+      i++;
+    }
+
+    // Other prefixes are part of the value, as in an IPv6 address like dead:beef::1
+    let field: SearchField | null = null;
+    const fieldMatch = /^([a-z]+):/i.exec(query.slice(i));
+    if (fieldMatch && SEARCH_FIELDS.includes(fieldMatch[1].toLowerCase() as SearchField)) {
+      field = fieldMatch[1].toLowerCase() as SearchField;
+      i += fieldMatch[0].length;
+    }
+
+    let value: string;
+    if (query[i] === '"') {
+      const close = query.indexOf('"', i + 1);
+      if (close === -1) {
+        throw new SearchQueryError('Missing closing quote', i, query.length);
+      }
+      value = query.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      const valueStart = i;
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      value = query.slice(valueStart, i);
+    }
+
+    if (!value) {
+      throw new SearchQueryError(field ? `Missing value for "${field}"` : 'Empty search term', start, i);
+    }
+
+    if (orStart === null) group++;
+    orStart = null;
+    terms.push({ field, value, negated, group, start, end: i });
+  }
+
+  if (orStart !== null) {
+    throw new SearchQueryError('"OR" must come between two terms', orStart, orStart + 2);
+  }
+  return terms;
+}
+
+function includes(text: string, value: string) {
+  return text.toLowerCase().includes(value.toLowerCase());
+}
+
+function termPredicate(term: SearchTerm, timeZone: string): Predicate {
+  const { field, value } = term;
+
+  switch (field) {
+    case null: {
+      const cidr = value.includes('/') ? parseCIDR(value) : null;
+      if (cidr) return (log) => ipInCIDR(log.ip, cidr);
+      return (log) =>
+        log.ip.includes(value) ||
+        includes(log.country, value) ||
+        includes(log.region, value) ||
+        includes(log.city, value) ||
+        includes(log.org, value);
+    }
+    case 'country':
+      return (log) => log.country.toLowerCase() === value.toLowerCase();
+    case 'region':
+    case 'city':
+    case 'org':
+      return (log) => includes(log[field], value);
+    case 'ip': {
+      if (value.includes('/')) {
+        const cidr = parseCIDR(value);
+        if (!cidr) {
+          throw new SearchQueryError(`Invalid CIDR range "${value}"`, term.start, term.end);
+        }
+        return (log) => ipInCIDR(log.ip, cidr);
+      }
+      if (value.endsWith('*')) {
+        const prefix = value.slice(0, -1);
+        return (log) => log.ip.startsWith(prefix);
+      }
+      return (log) => log.ip === value;
+    }
+    case 'after':
+    case 'before': {
+      const date = parseISO(value);
+      if (!DATE_PATTERN.test(value) || !isValid(date)) {
+        throw new SearchQueryError(`Invalid date "${value}", expected yyyy-MM-dd`, term.start, term.end);
+      }
+      const bounds = dayBounds(value, timeZone);
+      const bound = field === 'after' ? bounds.start : bounds.end;
+      return field === 'after'
+        ? (log) => parseISO(log.timestamp).getTime() >= bound
+        : (log) => parseISO(log.timestamp).getTime() <= bound;
+    }
+  }
+}
+
+// Compile a search query into a single predicate, throwing SearchQueryError if malformed.
+// after:/before: days are interpreted in the given time zone.
+export function compileSearchQuery(query: string, timeZone = DEFAULT_TIME_ZONE): Predicate {
+  const groups: Predicate[][] = [];
+  for (const term of parseSearchQuery(query)) {
+    const predicate = termPredicate(term, timeZone);
+    (groups[term.group] ??= []).push(term.negated ? (log: LogEntry) => !predicate(log) : predicate);
+  }
+
+  return (log) => groups.every((group) => group.some((predicate) => predicate(log)));
+}
+
+// Returns the error for a malformed query, or null if it is valid
+export function validateSearchQuery(query: string): SearchQueryError | null {
+  try {
+    compileSearchQuery(query);
+    return null;
+  } catch (error) {
+    if (error instanceof SearchQueryError) return error;
+    throw error;
+  }
+}
+
+function formatTerm(field: SearchField, value: string): string {
+  return /[\s"]/.test(value) ? `${field}:"${value.replace(/"/g, '')}"` : `${field}:${value}`;
+}
+
+// Values of the non-negated `field:` terms in a query, e.g. ['US'] for "country:US ashburn"
+export function getFieldValues(query: string, field: SearchField): string[] {
+  try {
+    return parseSearchQuery(query)
+      .filter((term) => term.field === field && !term.negated)
+      .map((term) => term.value);
+  } catch {
+    return [];
+  }
+}
+
+// Drop the terms matching `remove` from a query, along with the ORs that joined them to the rest;
+// malformed queries are returned as they are
+export function removeTerms(query: string, remove: (term: SearchTerm) => boolean): string {
+  let terms: SearchTerm[];
+  try {
+    terms = parseSearchQuery(query);
+  } catch {
+    return query;
+  }
+
+  let result = '';
+  let previous: SearchTerm | null = null;
+  for (const term of terms) {
+    if (remove(term)) continue;
+    if (previous) result += previous.group === term.group ? ' OR ' : ' ';
+    result += query.slice(term.start, term.end);
+    previous = term;
+  }
+  return result;
+}
+
+// Replace the non-negated `field:` terms in a query with a single term, or drop them when value is null
+export function setFieldTerm(query: string, field: SearchField, value: string | null): string {
+  const result = removeTerms(query, (term) => term.field === field && !term.negated).replace(/\s+/g, ' ').trim();
+
+  if (value === null) return result;
+  return result ? `${result} ${formatTerm(field, value)}` : formatTerm(field, value);
+}
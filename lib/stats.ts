@@ -0,0 +1,36 @@
+import { LogEntry, StatsData, DailyStats, visitorKey } from './types';
+import { dayInZone } from './timezone';
+
+// Build a StatsData document from raw logs, for sources that only provide log entries.
+// Visitors are counted by visitorKey(), so truncated IPs that share a prefix stay apart.
+export function computeStats(logs: LogEntry[]): StatsData {
+  // By instant, since sources may write timestamps with different offsets
+  const sorted = [...logs].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const seenIPs = new Set<string>();
+  const seenCountries = new Set<string>();
+  const dailyStats: Record<string, DailyStats> = {};
+
+  for (const log of sorted) {
+    const day = dayInZone(log.timestamp, 'UTC');
+    const daily = dailyStats[day] ??= { new_hits: 0, new_unique_ips: [], new_unique_countries: [] };
+    daily.new_hits++;
+
+    const visitor = visitorKey(log);
+    if (!seenIPs.has(visitor)) {
+      seenIPs.add(visitor);
+      daily.new_unique_ips.push(visitor);
+    }
+    if (!seenCountries.has(log.country)) {
+      seenCountries.add(log.country);
+      daily.new_unique_countries.push(log.country);
+    }
+  }
+
+  return {
+    total_hits: logs.length,
+    unique_ips: [...seenIPs],
+    unique_countries: [...seenCountries],
+    daily_stats: dailyStats,
+    last_processed_timestamp: sorted.length > 0 ? sorted[sorted.length - 1].timestamp : '',
+  };
+}
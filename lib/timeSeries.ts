@@ -0,0 +1,112 @@
+import {
+  parseISO, format, startOfDay, startOfHour, startOfWeek,
+  addHours, addDays, addWeeks, subDays, differenceInCalendarDays,
+} from 'date-fns';
+import { LogEntry, visitorKey } from './types';
+import { inZone, dayInZone, dayBounds } from './timezone';
+
+export type Granularity = 'hour' | 'day' | 'week';
+
+export interface TimeSeriesPoint {
+  time: number;
+  hits: number;
+  uniqueIPs: number;
+  previousHits?: number;
+  previousUniqueIPs?: number;
+}
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+// Buckets start on hour, day and Monday-week boundaries in the given zone
+const BUCKET_START: Record<Granularity, (date: Date, timeZone: string) => Date> = {
+  hour: (date, timeZone) => startOfHour(date, { in: inZone(timeZone) }),
+  day: (date, timeZone) => startOfDay(date, { in: inZone(timeZone) }),
+  week: (date, timeZone) => startOfWeek(date, { weekStartsOn: 1, in: inZone(timeZone) }),
+};
+
+const BUCKET_STEP: Record<Granularity, (date: Date, amount: number) => Date> = {
+  hour: addHours,
+  day: addDays,
+  week: addWeeks,
+};
+
+// The equal-length period immediately before the given range, e.g. Aug 8-14 for Aug 15-21.
+// Pure calendar arithmetic, so it is done in UTC whatever zone the days belong to.
+export function previousPeriod({ startDate, endDate }: DateRange): DateRange {
+  const utc = { in: inZone('UTC') };
+  const start = parseISO(startDate, utc);
+  const length = differenceInCalendarDays(parseISO(endDate, utc), start, utc) + 1;
+  return {
+    startDate: format(subDays(start, length, utc), 'yyyy-MM-dd', utc),
+    endDate: format(subDays(start, 1, utc), 'yyyy-MM-dd', utc),
+  };
+}
+
+// The first and last day covered by the logs in the zone, used when no date filter is set
+export function logsDateRange(logs: LogEntry[], timeZone: string): DateRange | null {
+  if (logs.length === 0) return null;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const log of logs) {
+    const time = parseISO(log.timestamp).getTime();
+    if (time < min) min = time;
+    if (time > max) max = time;
+  }
+  return { startDate: dayInZone(min, timeZone), endDate: dayInZone(max, timeZone) };
+}
+
+function countBuckets(logs: LogEntry[], granularity: Granularity, timeZone: string, offsetMs = 0) {
+  const buckets = new Map<number, { hits: number; ips: Set<string> }>();
+  for (const log of logs) {
+    const time = BUCKET_START[granularity](new Date(parseISO(log.timestamp).getTime() + offsetMs), timeZone).getTime();
+    let bucket = buckets.get(time);
+    if (!bucket) {
+      bucket = { hits: 0, ips: new Set() };
+      buckets.set(time, bucket);
+    }
+    bucket.hits++;
+    bucket.ips.add(visitorKey(log));
+  }
+  return buckets;
+}
+
+// Bucket hits and unique IPs over the range, optionally overlaying a comparison period
+// shifted forward so both series share the same time axis
+export function buildTimeSeries(
+  logs: LogEntry[],
+  range: DateRange,
+  granularity: Granularity,
+  timeZone: string,
+  previous?: { logs: LogEntry[]; range: DateRange }
+): TimeSeriesPoint[] {
+  const { start } = dayBounds(range.startDate, timeZone);
+  const { end } = dayBounds(range.endDate, timeZone);
+  const current = countBuckets(logs, granularity, timeZone);
+  const prior = previous
+    ? countBuckets(previous.logs, granularity, timeZone, start - dayBounds(previous.range.startDate, timeZone).start)
+    : null;
+
+  const points: TimeSeriesPoint[] = [];
+  for (
+    let bucket = BUCKET_START[granularity](new Date(start), timeZone);
+    bucket.getTime() <= end;
+    bucket = BUCKET_STEP[granularity](bucket, 1)
+  ) {
+    const time = bucket.getTime();
+    const point: TimeSeriesPoint = {
+      time,
+      hits: current.get(time)?.hits ?? 0,
+      uniqueIPs: current.get(time)?.ips.size ?? 0,
+    };
+    if (prior) {
+      point.previousHits = prior.get(time)?.hits ?? 0;
+      point.previousUniqueIPs = prior.get(time)?.ips.size ?? 0;
+    }
+    points.push(point);
+  }
+  return points;
+}
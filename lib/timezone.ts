@@ -0,0 +1,63 @@
+import { tz, TZDate } from '@date-fns/tz';
+import { format, parseISO, startOfDay, endOfDay } from 'date-fns';
+
+// Timestamps are stored in UTC; this is the zone the dashboard shows, buckets and filters them in
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+// Every IANA zone the runtime knows, UTC first
+export function listTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return [DEFAULT_TIME_ZONE, ...zones.filter((zone) => zone !== DEFAULT_TIME_ZONE)];
+}
+
+const contexts = new Map<string, (value: Date | string | number) => TZDate>();
+
+// date-fns `in` context for a zone, cached since bucketing calls this once per log entry
+export function inZone(zone: string) {
+  let context = contexts.get(zone);
+  if (!context) {
+    context = tz(zone);
+    contexts.set(zone, context);
+  }
+  return context;
+}
+
+export function formatInZone(value: Date | string | number, pattern: string, zone: string): string {
+  return format(typeof value === 'string' ? parseISO(value) : value, pattern, { in: inZone(zone) });
+}
+
+// Calendar day (yyyy-MM-dd) of a timestamp in the zone
+export function dayInZone(value: Date | string | number, zone: string): string {
+  return formatInZone(value, 'yyyy-MM-dd', zone);
+}
+
+// First and last millisecond of a yyyy-MM-dd day in the zone
+export function dayBounds(day: string, zone: string): { start: number; end: number } {
+  const date = parseISO(day, { in: inZone(zone) });
+  return { start: startOfDay(date).getTime(), end: endOfDay(date).getTime() };
+}
+
+// ISO 8601 in the zone, keeping the UTC "Z" form when the zone is UTC
+export function isoInZone(timestamp: string, zone: string): string {
+  if (zone === DEFAULT_TIME_ZONE) return timestamp;
+  return formatInZone(timestamp, "yyyy-MM-dd'T'HH:mm:ss.SSSxxx", zone);
+}
+
+// Short label such as "UTC" or "Europe/Berlin (GMT+2)"
+export function timeZoneLabel(zone: string, at: Date = new Date()): string {
+  if (zone === DEFAULT_TIME_ZONE) return zone;
+  return `${zone.replace(/_/g, ' ')} (${formatInZone(at, 'zzz', zone)})`;
+}
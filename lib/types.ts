@@ -0,0 +1,72 @@
+export interface LogEntry {
+  ip: string;
+  timestamp: string;
+  country: string;
+  org: string;
+  city: string;
+  region: string;
+  // Stable pseudonymous id, set when `ip` has been truncated for privacy so unique counts stay correct
+  visitor?: string;
+}
+
+// Identifies a visitor for unique counts, even when `ip` has been truncated
+export function visitorKey(log: LogEntry): string {
+  return log.visitor ?? log.ip;
+}
+
+// Inclusive bounds in epoch milliseconds; a missing bound is open
+export interface LogRange {
+  start?: number;
+  end?: number;
+}
+
+export function logsInRange(logs: LogEntry[], { start = -Infinity, end = Infinity }: LogRange): LogEntry[] {
+  if (start === -Infinity && end === Infinity) return logs;
+  return logs.filter((log) => {
+    const time = Date.parse(log.timestamp);
+    return time >= start && time <= end;
+  });
+}
+
+export interface DailyStats {
+  new_hits: number;
+  new_unique_ips: string[];
+  new_unique_countries: string[];
+}
+
+export interface StatsData {
+  total_hits: number;
+  unique_ips: string[];
+  unique_countries: string[];
+  daily_stats: Record<string, DailyStats>;
+  last_processed_timestamp: string;
+}
+
+export type SortField = 'timestamp' | 'ip' | 'country' | 'region' | 'city' | 'org';
+export type SortDirection = 'asc' | 'desc';
+
+export const SORT_FIELDS: SortField[] = ['timestamp', 'ip', 'country', 'region', 'city', 'org'];
+
+// One level of a multi-column sort; earlier keys take precedence
+export interface SortKey {
+  field: SortField;
+  direction: SortDirection;
+}
+
+export const DEFAULT_SORT: SortKey[] = [{ field: 'timestamp', direction: 'desc' }];
+
+// "timestamp:desc,ip:asc"; a missing direction means ascending. Returns null if malformed.
+export function parseSort(value: string): SortKey[] | null {
+  const keys: SortKey[] = [];
+  for (const part of value.split(',')) {
+    const [field, direction = 'asc'] = part.split(':');
+    if (!SORT_FIELDS.includes(field as SortField) || (direction !== 'asc' && direction !== 'desc')) return null;
+    if (keys.some((key) => key.field === field)) return null;
+    keys.push({ field: field as SortField, direction });
+  }
+  return keys;
+}
+
+export function formatSort(sort: SortKey[]): string {
+  return sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+}
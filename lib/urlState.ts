@@ -0,0 +1,124 @@
+import { isValid, parseISO } from 'date-fns';
+import { SortField, SortKey, SORT_FIELDS, DEFAULT_SORT, parseSort, formatSort } from './types';
+import { DEFAULT_PAGE_SIZE } from './logQuery';
+import { FacetFilter, formatFacet, parseFacet } from './facets';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from './timezone';
+import { CompareMode, COMPARE_MODES } from './comparison';
+
+export type DashboardView = 'chart' | 'table' | 'visitors';
+
+const DASHBOARD_VIEWS: DashboardView[] = ['chart', 'table', 'visitors'];
+
+export const PAGE_SIZES = [50, 100, 250, 500, 1000, 5000, 10000];
+
+export interface DashboardState {
+  search: string;
+  startDate: string;
+  endDate: string;
+  uniqueIPsOnly: boolean;
+  excludeDatacenters: boolean;
+  facets: FacetFilter[];
+  sort: SortKey[];
+  currentPage: number;
+  pageSize: number;
+  selectedView: DashboardView;
+  timeZone: string;
+  compareMode: CompareMode;
+  // Only used in custom compare mode
+  compareStartDate: string;
+  compareEndDate: string;
+}
+
+export const DEFAULT_DASHBOARD_STATE: DashboardState = {
+  search: '',
+  startDate: '',
+  endDate: '',
+  uniqueIPsOnly: false,
+  excludeDatacenters: false,
+  facets: [],
+  sort: DEFAULT_SORT,
+  currentPage: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+  selectedView: 'chart',
+  timeZone: DEFAULT_TIME_ZONE,
+  compareMode: 'off',
+  compareStartDate: '',
+  compareEndDate: '',
+};
+
+function parseDate(value: string | null): string {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return '';
+  return isValid(parseISO(value)) ? value : '';
+}
+
+// Read dashboard state from URL query parameters, falling back to defaults for anything invalid
+export function parseDashboardState(params: URLSearchParams): DashboardState {
+  const defaults = DEFAULT_DASHBOARD_STATE;
+  const sortParam = params.get('sort') ?? '';
+  const sortDirection = params.get('dir');
+  const view = params.get('view') as DashboardView;
+  const page = Number(params.get('page'));
+  const pageSize = Number(params.get('size'));
+  const timeZone = params.get('tz');
+  const compareMode = params.get('cmp') as CompareMode;
+
+  // Older links use sort=<field>&dir=<direction>
+  let sort = parseSort(sortParam) ?? defaults.sort;
+  if (SORT_FIELDS.includes(sortParam as SortField) && (sortDirection === 'asc' || sortDirection === 'desc')) {
+    sort = [{ field: sortParam as SortField, direction: sortDirection }];
+  }
+
+  let startDate = parseDate(params.get('from'));
+  let endDate = parseDate(params.get('to'));
+  if (startDate && endDate && startDate > endDate) {
+    startDate = '';
+    endDate = '';
+  }
+
+  let compareStartDate = parseDate(params.get('cfrom'));
+  let compareEndDate = parseDate(params.get('cto'));
+  if (compareStartDate && compareEndDate && compareStartDate > compareEndDate) {
+    compareStartDate = '';
+    compareEndDate = '';
+  }
+
+  return {
+    search: params.get('q') ?? defaults.search,
+    startDate,
+    endDate,
+    uniqueIPsOnly: params.get('unique') === '1',
+    excludeDatacenters: params.get('nodc') === '1',
+    facets: params.getAll('facet').map(parseFacet).filter((facet): facet is FacetFilter => facet !== null),
+    sort,
+    currentPage: Number.isInteger(page) && page >= 1 ? page : defaults.currentPage,
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : defaults.pageSize,
+    selectedView: DASHBOARD_VIEWS.includes(view) ? view : defaults.selectedView,
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : defaults.timeZone,
+    compareMode: COMPARE_MODES.includes(compareMode) ? compareMode : defaults.compareMode,
+    compareStartDate,
+    compareEndDate,
+  };
+}
+
+// Write dashboard state as query parameters, omitting anything at its default
+export function serializeDashboardState(state: DashboardState): URLSearchParams {
+  const defaults = DEFAULT_DASHBOARD_STATE;
+  const params = new URLSearchParams();
+
+  if (state.search) params.set('q', state.search);
+  if (state.startDate) params.set('from', state.startDate);
+  if (state.endDate) params.set('to', state.endDate);
+  if (state.uniqueIPsOnly) params.set('unique', '1');
+  if (state.excludeDatacenters) params.set('nodc', '1');
+  for (const facet of state.facets) params.append('facet', formatFacet(facet));
+  if (formatSort(state.sort) !== formatSort(defaults.sort)) params.set('sort', formatSort(state.sort));
+  if (state.currentPage !== defaults.currentPage) params.set('page', String(state.currentPage));
+  if (state.pageSize !== defaults.pageSize) params.set('size', String(state.pageSize));
+  if (state.selectedView !== defaults.selectedView) params.set('view', state.selectedView);
+  if (state.timeZone !== defaults.timeZone) params.set('tz', state.timeZone);
+  if (state.compareMode !== defaults.compareMode) params.set('cmp', state.compareMode);
+  if (state.compareMode === 'custom' && state.compareStartDate) params.set('cfrom', state.compareStartDate);
+  if (state.compareMode === 'custom' && state.compareEndDate) params.set('cto', state.compareEndDate);
+
+  return params;
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchJson } from './retry';
+
+export type ResourceStatus = 'loading' | 'ready' | 'error';
+
+export interface Resource<T> {
+  // Latest good value, possibly from the cache while a refresh is in flight or after it failed
+  data: T | null;
+  status: ResourceStatus;
+  error: Error | null;
+  isValidating: boolean;
+  // When `data` was fetched from the server
+  fetchedAt: number | null;
+  retryCount: number;
+  refresh: () => void;
+  // Update `data` locally, e.g. to merge live updates, without refetching
+  mutate: (update: (current: T | null) => T | null) => void;
+}
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+const CACHE_PREFIX = 'medtalk:resource:';
+
+// Stale-while-revalidate: the last good response is kept in sessionStorage and shown right away
+// on reload while a fresh copy is fetched. Cached values go through `parse` like fresh ones.
+function readCache<T>(key: string, parse: (value: unknown) => T): { value: T; fetchedAt: number } | null {
+  try {
+    const raw = window.sessionStorage.getItem(CACHE_PREFIX + key);
+    if (!raw) return null;
+    const entry: CacheEntry = JSON.parse(raw);
+    return { value: parse(entry.value), fetchedAt: entry.fetchedAt };
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(key: string, entry: CacheEntry) {
+  try {
+    window.sessionStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+  } catch {
+    // Quota exceeded or storage disabled; the cache is only an optimization
+  }
+}
+
+// Cached payloads include visitor IPs for admins, so they are dropped on sign-out
+export function clearResourceCache() {
+  try {
+    for (const key of Object.keys(window.sessionStorage)) {
+      if (key.startsWith(CACHE_PREFIX)) window.sessionStorage.removeItem(key);
+    }
+  } catch {
+    // Storage disabled, nothing was cached
+  }
+}
+
+export function useResource<T>(key: string, url: string, parse: (value: unknown) => T): Resource<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isValidating, setIsValidating] = useState(true);
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const [generation, setGeneration] = useState(0);
+  const parseRef = useRef(parse);
+  parseRef.current = parse;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const parseValue = (value: unknown) => parseRef.current(value);
+
+    if (generation === 0) {
+      const cached = readCache(key, parseValue);
+      if (cached) {
+        setData(cached.value);
+        setFetchedAt(cached.fetchedAt);
+      }
+    }
+
+    setIsValidating(true);
+    setRetryCount(0);
+    fetchJson(url, parseValue, {
+      signal: controller.signal,
+      onRetry: (_, attempt) => setRetryCount(attempt),
+    })
+      .then((value) => {
+        const now = Date.now();
+        setData(value);
+        setFetchedAt(now);
+        setError(null);
+        writeCache(key, { value, fetchedAt: now });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error(`Error fetching ${url}:`, err);
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsValidating(false);
+      });
+
+    return () => controller.abort();
+  }, [key, url, generation]);
+
+  const refresh = useCallback(() => setGeneration((count) => count + 1), []);
+  const mutate = useCallback((update: (current: T | null) => T | null) => setData(update), []);
+
+  const status: ResourceStatus = data !== null ? 'ready' : error && !isValidating ? 'error' : 'loading';
+  return { data, status, error, isValidating, fetchedAt, retryCount, refresh, mutate };
+}
@@ -0,0 +1,169 @@
+import { parseISO } from 'date-fns';
+import { LogEntry, SortDirection, visitorKey } from './types';
+import { DEFAULT_TIME_ZONE, dayInZone } from './timezone';
+
+// Hits further apart than this start a new session
+export const SESSION_GAP_MINUTES = 30;
+
+export interface Session {
+  start: string;
+  end: string;
+  hits: LogEntry[];
+}
+
+export interface AttributeChange {
+  timestamp: string;
+  field: 'org' | 'city';
+  from: string;
+  to: string;
+}
+
+export interface VisitorProfile {
+  key: string;
+  ip: string;
+  hits: LogEntry[];
+  sessions: Session[];
+  firstSeen: string;
+  lastSeen: string;
+  daysActive: number;
+  changes: AttributeChange[];
+}
+
+export interface VisitorSummary {
+  key: string;
+  ip: string;
+  hits: number;
+  sessions: number;
+  firstSeen: string;
+  lastSeen: string;
+  daysActive: number;
+  // Location and org of the most recent hit
+  country: string;
+  org: string;
+  city: string;
+}
+
+export type VisitorSortField = 'ip' | 'hits' | 'sessions' | 'firstSeen' | 'lastSeen' | 'daysActive' | 'country' | 'org';
+
+function byTime(a: LogEntry, b: LogEntry) {
+  return parseISO(a.timestamp).getTime() - parseISO(b.timestamp).getTime();
+}
+
+// Split time-ordered hits wherever the gap between consecutive hits exceeds gapMinutes
+export function buildSessions(hits: LogEntry[], gapMinutes: number = SESSION_GAP_MINUTES): Session[] {
+  const gapMs = gapMinutes * 60 * 1000;
+  const sessions: Session[] = [];
+  let previous = -Infinity;
+
+  for (const hit of hits) {
+    const time = parseISO(hit.timestamp).getTime();
+    const current = sessions[sessions.length - 1];
+    if (current && time - previous <= gapMs) {
+      current.hits.push(hit);
+      current.end = hit.timestamp;
+    } else {
+      sessions.push({ start: hit.timestamp, end: hit.timestamp, hits: [hit] });
+    }
+    previous = time;
+  }
+  return sessions;
+}
+
+function attributeChanges(hits: LogEntry[]): AttributeChange[] {
+  const changes: AttributeChange[] = [];
+  for (let i = 1; i < hits.length; i++) {
+    for (const field of ['org', 'city'] as const) {
+      if (hits[i][field] !== hits[i - 1][field]) {
+        changes.push({ timestamp: hits[i].timestamp, field, from: hits[i - 1][field], to: hits[i][field] });
+      }
+    }
+  }
+  return changes;
+}
+
+function daysActive(hits: LogEntry[], timeZone: string): number {
+  return new Set(hits.map((hit) => dayInZone(hit.timestamp, timeZone))).size;
+}
+
+function groupByVisitor(logs: LogEntry[]): Map<string, LogEntry[]> {
+  const groups = new Map<string, LogEntry[]>();
+  for (const log of logs) {
+    const key = visitorKey(log);
+    let hits = groups.get(key);
+    if (!hits) {
+      hits = [];
+      groups.set(key, hits);
+    }
+    hits.push(log);
+  }
+  for (const hits of groups.values()) hits.sort(byTime);
+  return groups;
+}
+
+// Everything known about one visitor, or null if it has no hits in logs
+export function buildVisitorProfile(
+  logs: LogEntry[],
+  key: string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  gapMinutes: number = SESSION_GAP_MINUTES
+): VisitorProfile | null {
+  const hits = logs.filter((log) => visitorKey(log) === key).sort(byTime);
+  if (hits.length === 0) return null;
+
+  return {
+    key,
+    ip: hits[hits.length - 1].ip,
+    hits,
+    sessions: buildSessions(hits, gapMinutes),
+    firstSeen: hits[0].timestamp,
+    lastSeen: hits[hits.length - 1].timestamp,
+    daysActive: daysActive(hits, timeZone),
+    changes: attributeChanges(hits),
+  };
+}
+
+export function summarizeVisitors(
+  logs: LogEntry[],
+  timeZone: string = DEFAULT_TIME_ZONE,
+  gapMinutes: number = SESSION_GAP_MINUTES
+): VisitorSummary[] {
+  return [...groupByVisitor(logs).entries()].map(([key, hits]) => {
+    const latest = hits[hits.length - 1];
+    return {
+      key,
+      ip: latest.ip,
+      hits: hits.length,
+      sessions: buildSessions(hits, gapMinutes).length,
+      firstSeen: hits[0].timestamp,
+      lastSeen: latest.timestamp,
+      daysActive: daysActive(hits, timeZone),
+      country: latest.country,
+      org: latest.org,
+      city: latest.city,
+    };
+  });
+}
+
+export function sortVisitors(
+  visitors: VisitorSummary[],
+  sortField: VisitorSortField,
+  sortDirection: SortDirection
+): VisitorSummary[] {
+  return [...visitors].sort((a, b) => {
+    let result: number;
+    switch (sortField) {
+      case 'hits':
+      case 'sessions':
+      case 'daysActive':
+        result = a[sortField] - b[sortField];
+        break;
+      case 'firstSeen':
+      case 'lastSeen':
+        result = parseISO(a[sortField]).getTime() - parseISO(b[sortField]).getTime();
+        break;
+      default:
+        result = a[sortField].localeCompare(b[sortField]);
+    }
+    return sortDirection === 'asc' ? result : -result;
+  });
+}
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { encode } from 'next-auth/jwt';
+import { config, middleware } from './middleware';
+import type { Role } from './lib/auth';
+
+const SECRET = 'middleware-test-secret';
+
+async function sessionCookie(role: Role): Promise<string> {
+  const token = await encode({ token: { sub: 'alice', role }, secret: SECRET });
+  return `next-auth.session-token=${token}`;
+}
+
+function request(path: string, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(new URL(path, 'http://localhost:3000'), { headers });
+}
+
+beforeEach(() => {
+  vi.stubEnv('NEXTAUTH_SECRET', SECRET);
+  vi.stubEnv('NEXTAUTH_URL', 'http://localhost:3000');
+  vi.stubEnv('ANOMALY_API_TOKEN', 'cron-token');
+  vi.stubEnv('REPORT_API_TOKEN', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('middleware', () => {
+  it('answers API requests without a session with 401', async () => {
+    const response = await middleware(request('/api/logs'));
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Authentication required' });
+  });
+
+  it('redirects pages to the login page, keeping the original URL', async () => {
+    const response = await middleware(request('/?view=map&q=country:DE'));
+    expect(response.status).toBe(307);
+    const location = new URL(response.headers.get('location')!);
+    expect(location.pathname).toBe('/login');
+    expect(location.searchParams.get('callbackUrl')).toBe('/?view=map&q=country:DE');
+  });
+
+  it('lets signed-in users through', async () => {
+    const response = await middleware(request('/api/logs', { cookie: await sessionCookie('viewer') }));
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+  });
+
+  it('rejects a session signed with another secret', async () => {
+    const token = await encode({ token: { sub: 'alice', role: 'admin' }, secret: 'other-secret' });
+    const response = await middleware(request('/api/logs', { cookie: `next-auth.session-token=${token}` }));
+    expect(response.status).toBe(401);
+  });
+
+  it('accepts the API token only on its own route', async () => {
+    const authorization = { authorization: 'Bearer cron-token' };
+    expect((await middleware(request('/api/anomalies', authorization))).headers.get('x-middleware-next')).toBe('1');
+    expect((await middleware(request('/api/logs', authorization))).status).toBe(401);
+    expect((await middleware(request('/api/anomalies', { authorization: 'Bearer wrong' }))).status).toBe(401);
+  });
+
+  it('ignores tokens for routes whose token is not configured', async () => {
+    const response = await middleware(request('/api/reports/digest', { authorization: 'Bearer ' }));
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('matcher', () => {
+  const matcher = new RegExp(`^${config.matcher[0]}$`);
+
+  it('skips only the login page, auth endpoints and static assets', () => {
+    for (const path of ['/login', '/login/', '/api/auth', '/api/auth/session', '/_next/static/app.js', '/favicon.ico']) {
+      expect(matcher.test(path)).toBe(false);
+    }
+  });
+
+  it('protects paths that merely start with an excluded name', () => {
+    for (const path of ['/', '/login-export', '/loginfoo/data', '/api/authx', '/api/logs']) {
+      expect(matcher.test(path)).toBe(true);
+    }
+  });
+});
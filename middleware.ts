@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+
+// Routes that also accept `Authorization: Bearer $<env var>`, for cron jobs without a session
+const TOKEN_ROUTES: Record<string, string> = {
+  '/api/anomalies': 'ANOMALY_API_TOKEN',
+  '/api/reports/digest': 'REPORT_API_TOKEN',
+};
+
+function hasApiToken(request: NextRequest): boolean {
+  const envName = TOKEN_ROUTES[request.nextUrl.pathname];
+  const token = envName && process.env[envName];
+  return !!token && request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+// Everything except the login page, auth endpoints and static assets requires a session
+export async function middleware(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (token || hasApiToken(request)) return NextResponse.next();
+
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('callbackUrl', request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/((?!api/auth(?:/|$)|login(?:/|$)|_next/static|_next/image|favicon.ico).*)'],
+};
@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+// Prints a password hash for an AUTH_USERS_FILE entry.
+// Usage: npm run hash-password -- <password>
+import { scryptSync, randomBytes } from 'crypto';
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run hash-password -- <password>');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64);
+console.log(`scrypt$${salt.toString('hex')}$${key.toString('hex')}`);
@@ -0,0 +1,80 @@
+// Ingest nginx/Apache access logs into an NDJSON file the dashboard can serve with LOG_SOURCE=file.
+//
+//   GEOIP_CITY_DB=GeoLite2-City.mmdb GEOIP_ASN_DB=GeoLite2-ASN.mmdb \
+//     npm run ingest -- /var/log/nginx/access.log /var/log/nginx/access.log.2.gz --path /api/
+//   LOG_SOURCE=file LOG_FILE_PATH=data/ingested.ndjson npm run dev
+//
+// Pass - to read standard input. --stats also writes a StatsData document for the whole file.
+import { readFile, writeFile } from 'fs/promises';
+import { gunzipSync } from 'zlib';
+import { parseArgs } from 'util';
+import { computeStats } from '../lib/stats';
+import { parseLogFile } from '../lib/dataSource/file';
+import {
+  AccessLogFormat, ingestAccessLog, appendIngestedLogs, defaultIngestFile, openGeoIp, geoIpConfigFromEnv,
+} from '../lib/ingest';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    format: { type: 'string', default: 'auto' },
+    path: { type: 'string' },
+    out: { type: 'string' },
+    stats: { type: 'string' },
+    'city-db': { type: 'string' },
+    'asn-db': { type: 'string' },
+  },
+});
+
+async function readInput(name: string): Promise<string> {
+  let bytes: Buffer;
+  if (name === '-') {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    bytes = Buffer.concat(chunks);
+  } else {
+    bytes = await readFile(name);
+  }
+  return (bytes[0] === 0x1f && bytes[1] === 0x8b ? gunzipSync(bytes) : bytes).toString('utf8');
+}
+
+async function main() {
+  if (positionals.length === 0) {
+    console.error('Usage: npm run ingest -- <access.log|-> [...] [--format auto|combined|json] [--path /api/] [--out file] [--stats file]');
+    process.exit(1);
+  }
+
+  const config = geoIpConfigFromEnv();
+  const geo = await openGeoIp({
+    cityDb: values['city-db'] ?? config.cityDb,
+    asnDb: values['asn-db'] ?? config.asnDb,
+  });
+  if (!values['city-db'] && !values['asn-db'] && !config.cityDb && !config.asnDb) {
+    console.warn('No GeoIP databases configured (GEOIP_CITY_DB, GEOIP_ASN_DB); location and org will be empty');
+  }
+
+  const out = values.out ?? defaultIngestFile();
+  for (const name of positionals) {
+    const result = ingestAccessLog(await readInput(name), geo, {
+      format: values.format as AccessLogFormat,
+      pathPrefix: values.path,
+    });
+    const { added, duplicates } = await appendIngestedLogs(out, result.logs);
+    console.log(`${name}: ${result.lines} lines, ${result.logs.length} requests, ${added} added, ${duplicates} already ingested, ${result.skipped} skipped`);
+    for (const { line, reason } of result.errors) {
+      console.log(`  line ${line}: ${reason}`);
+    }
+  }
+  console.log(`Wrote ${out}`);
+
+  if (values.stats) {
+    const stats = computeStats(parseLogFile(await readFile(out, 'utf8'), out));
+    await writeFile(values.stats, JSON.stringify(stats, null, 2));
+    console.log(`Wrote ${values.stats}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
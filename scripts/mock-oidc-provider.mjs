@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+// Minimal OpenID Connect provider for local development and tests. Not for production use.
+//
+//   npm run mock-idp
+//   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=dashboard OIDC_CLIENT_SECRET=secret npm run dev
+//
+// The authorize page lists the mock users; pass login_hint=<username> to skip it.
+import { createServer } from 'http';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 9400);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'dashboard';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'secret';
+
+const USERS = {
+  admin: { sub: 'mock-admin', name: 'Mock Admin', email: 'admin@example.test', groups: ['admin'] },
+  viewer: { sub: 'mock-viewer', name: 'Mock Viewer', email: 'viewer@example.test', groups: [] },
+};
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KID = 'mock-key';
+const codes = new Map();
+const accessTokens = new Map();
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+function signJwt(payload) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KID }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = sign('sha256', Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+function json(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+function clientCredentials(req, form) {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(header.slice(6), 'base64').toString().split(':').map(decodeURIComponent);
+    return { id, secret };
+  }
+  return { id: form.get('client_id'), secret: form.get('client_secret') };
+}
+
+function authorize(url, res) {
+  const params = url.searchParams;
+  if (params.get('client_id') !== CLIENT_ID) return json(res, 400, { error: 'unauthorized_client' });
+
+  const username = params.get('login_hint');
+  if (!username || !USERS[username]) {
+    const links = Object.keys(USERS).map((name) => {
+      const next = new URL(url);
+      next.searchParams.set('login_hint', name);
+      return `<li><a href="${next.pathname}${next.search}">Sign in as ${name}</a></li>`;
+    });
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    return res.end(`<!doctype html><h1>Mock identity provider</h1><ul>${links.join('')}</ul>`);
+  }
+
+  const code = randomBytes(16).toString('hex');
+  codes.set(code, {
+    username,
+    redirectUri: params.get('redirect_uri'),
+    codeChallenge: params.get('code_challenge'),
+    nonce: params.get('nonce'),
+  });
+
+  const redirect = new URL(params.get('redirect_uri'));
+  redirect.searchParams.set('code', code);
+  if (params.get('state')) redirect.searchParams.set('state', params.get('state'));
+  res.writeHead(302, { Location: redirect.toString() });
+  res.end();
+}
+
+async function token(req, res) {
+  const form = await readForm(req);
+  const client = clientCredentials(req, form);
+  if (client.id !== CLIENT_ID || client.secret !== CLIENT_SECRET) return json(res, 401, { error: 'invalid_client' });
+
+  const grant = codes.get(form.get('code'));
+  codes.delete(form.get('code'));
+  if (!grant || grant.redirectUri !== form.get('redirect_uri')) return json(res, 400, { error: 'invalid_grant' });
+
+  if (grant.codeChallenge) {
+    const verifier = form.get('code_verifier') || '';
+    if (createHash('sha256').update(verifier).digest('base64url') !== grant.codeChallenge) {
+      return json(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+  }
+
+  const user = USERS[grant.username];
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = randomBytes(16).toString('hex');
+  accessTokens.set(accessToken, user);
+
+  json(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    id_token: signJwt({ iss: ISSUER, aud: CLIENT_ID, iat: now, exp: now + 3600, nonce: grant.nonce ?? undefined, ...user }),
+  });
+}
+
+function userinfo(req, res) {
+  const user = accessTokens.get((req.headers.authorization || '').replace(/^Bearer /, ''));
+  if (!user) return json(res, 401, { error: 'invalid_token' });
+  json(res, 200, user);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  switch (`${req.method} ${url.pathname}`) {
+    case 'GET /.well-known/openid-configuration':
+      return json(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        scopes_supported: ['openid', 'profile', 'email'],
+      });
+    case 'GET /jwks':
+      return json(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' }] });
+    case 'GET /authorize':
+      return authorize(url, res);
+    case 'POST /token':
+      return token(req, res);
+    case 'GET /userinfo':
+      return userinfo(req, res);
+    default:
+      return json(res, 404, { error: 'not_found' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider listening on ${ISSUER} (client ${CLIENT_ID} / ${CLIENT_SECRET})`);
+});
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+// Build and deliver a digest through the running dashboard, e.g. from cron.
+//
+//   REPORT_API_TOKEN=... npm run digest -- --from 2025-01-06 --to 2025-01-12 --tz Europe/Berlin --transport smtp
+//   REPORT_API_TOKEN=... npm run digest -- --format pdf --out digest.pdf
+//
+// Without --from/--to the digest covers the last seven complete days. With --format the digest is
+// downloaded (html, pdf or json) instead of being sent; --out writes it to a file instead of stdout.
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+
+const { values } = parseArgs({
+  options: {
+    from: { type: 'string' },
+    to: { type: 'string' },
+    tz: { type: 'string' },
+    transport: { type: 'string' },
+    format: { type: 'string' },
+    out: { type: 'string' },
+  },
+});
+
+const baseUrl = process.env.DASHBOARD_URL || 'http://localhost:3000';
+const token = process.env.REPORT_API_TOKEN;
+if (!token) {
+  console.error('REPORT_API_TOKEN is required');
+  process.exit(1);
+}
+const headers = { Authorization: `Bearer ${token}` };
+
+async function fail(response) {
+  const body = await response.json().catch(() => ({}));
+  console.error(`Digest failed (${response.status}): ${body.error || response.statusText}`);
+  process.exit(1);
+}
+
+if (values.format) {
+  const url = new URL('/api/reports/digest', baseUrl);
+  for (const [param, value] of [['from', values.from], ['to', values.to], ['timeZone', values.tz], ['format', values.format]]) {
+    if (value) url.searchParams.set(param, value);
+  }
+  const response = await fetch(url, { headers });
+  if (!response.ok) await fail(response);
+  const body = Buffer.from(await response.arrayBuffer());
+  if (values.out) {
+    await writeFile(values.out, body);
+    console.log(`Wrote ${values.out}`);
+  } else {
+    process.stdout.write(body);
+  }
+} else {
+  const response = await fetch(new URL('/api/reports/digest', baseUrl), {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from: values.from, to: values.to, timeZone: values.tz, transport: values.transport }),
+  });
+  if (!response.ok) await fail(response);
+  const result = await response.json();
+  console.log(`${result.subject} (${result.time_zone}): ${result.result}`);
+}
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+// Local SMTP sink for developing and testing digest emails. Accepts every message and never relays it.
+//
+//   npm run smtp-sink
+//   REPORT_TRANSPORT=smtp REPORT_SMTP_URL=smtp://localhost:2525 REPORT_EMAIL_TO=team@example.test npm run dev
+//
+// Each message is saved as an .eml file in SMTP_SINK_DIR (data/smtp-sink by default).
+import { createServer } from 'net';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+
+const PORT = Number(process.env.SMTP_SINK_PORT || 2525);
+const DIR = process.env.SMTP_SINK_DIR || path.join(process.cwd(), 'data', 'smtp-sink');
+
+mkdirSync(DIR, { recursive: true });
+let received = 0;
+
+function saveMessage(envelope, data) {
+  received += 1;
+  const file = path.join(DIR, `${Date.now()}-${received}.eml`);
+  writeFileSync(file, data, 'latin1');
+  const subject = /^Subject: (.*)$/im.exec(data)?.[1] ?? '(no subject)';
+  console.log(`Message ${received} from ${envelope.from} to ${envelope.to.join(', ')}: ${subject}`);
+  console.log(`  saved ${file} (${data.length} bytes)`);
+}
+
+createServer((socket) => {
+  let envelope = { from: '', to: [] };
+  let buffer = '';
+  let data = null;
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+  reply('220 localhost smtp-sink ready');
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('latin1');
+    let index;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (data !== null) {
+        if (line === '.') {
+          saveMessage(envelope, data.join('\r\n'));
+          envelope = { from: '', to: [] };
+          data = null;
+          reply('250 OK: message accepted');
+        } else {
+          // Undo dot-stuffing
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      switch (command) {
+        case 'EHLO':
+          socket.write('250-localhost\r\n250-8BITMIME\r\n250 SMTPUTF8\r\n');
+          break;
+        case 'HELO':
+          reply('250 localhost');
+          break;
+        case 'MAIL':
+          envelope = { from: /<(.*)>/.exec(line)?.[1] ?? '', to: [] };
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push(/<(.*)>/.exec(line)?.[1] ?? '');
+          reply('250 OK');
+          break;
+        case 'DATA':
+          data = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          envelope = { from: '', to: [] };
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    }
+  });
+  socket.on('error', () => {});
+}).listen(PORT, () => {
+  console.log(`SMTP sink listening on smtp://localhost:${PORT}, saving to ${DIR}`);
+});
@@ -0,0 +1,18 @@
+import { DefaultSession } from 'next-auth';
+import { Role } from '@/lib/auth/users';
+
+declare module 'next-auth' {
+  interface User {
+    role: Role;
+  }
+
+  interface Session {
+    user: DefaultSession['user'] & { id: string; role: Role };
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    role?: Role;
+  }
+}